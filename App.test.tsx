@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from './App';
+
+// IndexedDB is not available in jsdom; saved jobs are covered by their own module.
+vi.mock('./services/jobStore', () => ({
+    createJobId: () => 'job-1',
+    listJobs: vi.fn(async () => []),
+    loadJob: vi.fn(async () => null),
+    saveJob: vi.fn(async () => {}),
+    saveJobResult: vi.fn(async () => {}),
+    saveJobResults: vi.fn(async () => {}),
+    deleteJob: vi.fn(async () => {}),
+    deleteJobResults: vi.fn(async () => {}),
+}));
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const getAuthorization = (init?: RequestInit) => (init?.headers as Record<string, string>)?.Authorization;
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('App', () => {
+    it('asks for keys first and opens the generator once one is saved', async () => {
+        render(<App />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'OpenAI' }));
+        fireEvent.change(screen.getByPlaceholderText('Enter one OpenAI API Key per line'), { target: { value: 'sk-first\n\nsk-second ' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Save & Continue' }));
+
+        expect(await screen.findByRole('heading', { name: 'PromptFlow' })).toBeInTheDocument();
+        expect(JSON.parse(localStorage.getItem('ai_api_keys')!).openai).toEqual(['sk-first', 'sk-second']);
+    });
+
+    it('migrates Google keys saved by older versions', async () => {
+        localStorage.setItem('gemini_api_key', JSON.stringify(['legacy-google-key']));
+
+        render(<App />);
+
+        expect(await screen.findByRole('heading', { name: 'PromptFlow' })).toBeInTheDocument();
+        expect(JSON.parse(localStorage.getItem('ai_api_keys')!).google).toEqual(['legacy-google-key']);
+        expect(localStorage.getItem('gemini_api_key')).toBeNull();
+    });
+
+    it('generates pasted prompts in the selected range, rotating past a rate-limited key', async () => {
+        localStorage.setItem('ai_api_keys', JSON.stringify({ openai: ['sk-limited', 'sk-working'] }));
+        const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => getAuthorization(init) === 'Bearer sk-limited'
+            ? jsonResponse({ error: { message: 'Rate limit reached', code: 'rate_limit_exceeded' } }, 429, { 'Retry-After': '60' })
+            : jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        render(<App />);
+
+        fireEvent.click(await screen.findByRole('button', { name: 'Paste Text' }));
+        fireEvent.change(screen.getByPlaceholderText(/Paste your data here/), { target: { value: '1,A cat\n2,A dog, running\n3,A bird' } });
+        fireEvent.change(screen.getByPlaceholderText('End ID'), { target: { value: '2' } });
+        fireEvent.click(screen.getByRole('button', { name: /Start Generating with OpenAI - DALL·E 3/ }));
+
+        expect(await screen.findByAltText('A cat')).toHaveAttribute('src', 'data:image/png;base64,aW1hZ2U=');
+        expect(await screen.findByAltText('A dog, running')).toBeInTheDocument();
+        expect(screen.queryByAltText('A bird')).not.toBeInTheDocument();
+
+        await waitFor(() => expect(screen.getByRole('button', { name: /Start Generating/ })).toBeEnabled());
+        const keysUsed = fetchMock.mock.calls.map(([, init]) => getAuthorization(init));
+        expect(keysUsed.filter(key => key === 'Bearer sk-limited')).toHaveLength(1);
+        expect(keysUsed.filter(key => key === 'Bearer sk-working')).toHaveLength(2);
+        expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string).prompt)).toEqual(expect.arrayContaining(['A cat', 'A dog, running']));
+    });
+
+    it('regenerates selected rows with a model that only supports square images', async () => {
+        localStorage.setItem('ai_api_keys', JSON.stringify({ openai: ['sk-working'] }));
+        const fetchMock = vi.fn<typeof fetch>(async () => jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        render(<App />);
+
+        fireEvent.click(await screen.findByRole('button', { name: 'Paste Text' }));
+        fireEvent.change(screen.getByPlaceholderText(/Paste your data here/), { target: { value: 'id,prompt,aspect_ratio\n1,A lighthouse,16:9' } });
+        fireEvent.click(screen.getByRole('button', { name: /Start Generating with OpenAI - DALL·E 3/ }));
+        expect(await screen.findByAltText('A lighthouse')).toBeInTheDocument();
+        await waitFor(() => expect(screen.getByRole('button', { name: /Start Generating/ })).toBeEnabled());
+
+        fireEvent.click(screen.getByRole('button', { name: 'Select all' }));
+        const withModel = screen.getByRole('button', { name: 'With model' });
+        fireEvent.change(withModel.previousElementSibling!, { target: { value: 'openai-dalle2' } });
+        fireEvent.click(withModel);
+
+        await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+        const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string));
+        expect(bodies.map(({ model, size }) => ({ model, size }))).toEqual([
+            { model: 'dall-e-3', size: '1792x1024' },
+            { model: 'dall-e-2', size: '1024x1024' },
+        ]);
+        await waitFor(() => expect(screen.getByRole('button', { name: /Start Generating/ })).toBeEnabled());
+        expect(screen.queryByText(/does not support aspect ratio/)).not.toBeInTheDocument();
+        expect(screen.getByAltText('A lighthouse')).toBeInTheDocument();
+    });
+});
@@ -1,11 +1,17 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ImageGenerator from './components/ImageGenerator';
+import VaultUnlockScreen from './components/VaultUnlockScreen';
+import KeyVaultModal from './components/KeyVaultModal';
 import { GithubIcon } from './components/icons';
 import { ApiKeys, Provider } from './types';
+import { getCredentialName, PROVIDER_INFO, PROVIDERS } from './services/providers';
+import { createEmptyApiKeys, hasAnyApiKey, loadStoredApiKeys, normalizeApiKeys, removeStoredApiKeys, saveStoredApiKeys } from './services/keyStorage';
+import { createVaultSession, EncryptedVault, loadStoredVault, parseVault, removeStoredVault, sealKeys, storeVault, unlockVault, VaultSession } from './services/keyVault';
 
-const ApiKeySetup: React.FC<{ onApiKeySubmit: (keys: ApiKeys) => void }> = ({ onApiKeySubmit }) => {
+const ApiKeySetup: React.FC<{ onApiKeySubmit: (keys: ApiKeys, passphrase?: string) => void, onImportVault: (file: File) => void }> = ({ onApiKeySubmit, onImportVault }) => {
   const [activeTab, setActiveTab] = useState<Provider>('google');
-  const [keys, setKeys] = useState<ApiKeys>({ google: [], openai: [] });
+  const [keys, setKeys] = useState<ApiKeys>(createEmptyApiKeys);
+  const [passphrase, setPassphrase] = useState('');
 
   const handleInputChange = (provider: Provider, value: string) => {
     const keysArray = value.split('\n').map(k => k.trim()).filter(Boolean);
@@ -14,14 +20,16 @@ const ApiKeySetup: React.FC<{ onApiKeySubmit: (keys: ApiKeys) => void }> = ({ on
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (keys.google.length > 0 || keys.openai.length > 0) {
-      onApiKeySubmit(keys);
+    if (hasAnyApiKey(keys)) {
+      onApiKeySubmit(keys, passphrase || undefined);
     } else {
-      alert('Please enter at least one API key.');
+      alert('Please enter at least one API key or server URL.');
     }
   };
 
-  const hasKeys = keys.google.length > 0 || keys.openai.length > 0;
+  const hasKeys = hasAnyApiKey(keys);
+  const activeInfo = PROVIDER_INFO[activeTab];
+  const credentialName = getCredentialName(activeTab);
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
@@ -32,46 +40,43 @@ const ApiKeySetup: React.FC<{ onApiKeySubmit: (keys: ApiKeys) => void }> = ({ on
           <p className="mt-1 text-xs text-gray-500">The app will automatically rotate keys for each provider.</p>
         </div>
         
-        <div className="flex border-b border-gray-700">
-          <button onClick={() => setActiveTab('google')} className={`px-4 py-2 text-sm font-medium transition-colors ${activeTab === 'google' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400 hover:text-white'}`}>
-            Google AI
-          </button>
-          <button onClick={() => setActiveTab('openai')} className={`px-4 py-2 text-sm font-medium transition-colors ${activeTab === 'openai' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400 hover:text-white'}`}>
-            OpenAI (GPT)
-          </button>
+        <div className="flex flex-wrap border-b border-gray-700">
+          {PROVIDERS.map(provider => (
+            <button key={provider} onClick={() => setActiveTab(provider)} className={`px-4 py-2 text-sm font-medium transition-colors ${activeTab === provider ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400 hover:text-white'}`}>
+              {PROVIDER_INFO[provider].name}
+              {keys[provider].length > 0 && <span className="ml-1 text-xs text-gray-500">({keys[provider].length})</span>}
+            </button>
+          ))}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          {activeTab === 'google' && (
-            <div>
-              <label htmlFor="google-api-key" className="sr-only">Google AI API Keys</label>
-              <textarea
-                id="google-api-key"
-                value={keys.google.join('\n')}
-                onChange={(e) => handleInputChange('google', e.target.value)}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition duration-200 h-32 resize-none font-mono"
-                placeholder="Enter one Google AI API Key per line"
-              />
-               <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="mt-2 inline-block text-sm text-indigo-400 hover:text-indigo-300">
-                Get your Google AI API Key &rarr;
-              </a>
-            </div>
-          )}
-          {activeTab === 'openai' && (
-            <div>
-              <label htmlFor="openai-api-key" className="sr-only">OpenAI API Keys</label>
-              <textarea
-                id="openai-api-key"
-                value={keys.openai.join('\n')}
-                onChange={(e) => handleInputChange('openai', e.target.value)}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition duration-200 h-32 resize-none font-mono"
-                placeholder="Enter one OpenAI API Key per line"
-              />
-              <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="mt-2 inline-block text-sm text-indigo-400 hover:text-indigo-300">
-                Get your OpenAI API Key &rarr;
+          <div>
+            <label htmlFor={`${activeTab}-api-key`} className="sr-only">{activeInfo.name} {credentialName}s</label>
+            <textarea
+              id={`${activeTab}-api-key`}
+              value={keys[activeTab].join('\n')}
+              onChange={(e) => handleInputChange(activeTab, e.target.value)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition duration-200 h-32 resize-none font-mono"
+              placeholder={`Enter one ${activeInfo.name} ${credentialName} per line`}
+            />
+            {activeInfo.hint && <p className="mt-1 text-xs text-gray-500">{activeInfo.hint}</p>}
+            {activeInfo.helpUrl && (
+              <a href={activeInfo.helpUrl} target="_blank" rel="noopener noreferrer" className="mt-2 inline-block text-sm text-indigo-400 hover:text-indigo-300">
+                {activeInfo.credential === 'baseUrl' ? `Enable the ${activeInfo.name} API` : `Get your ${activeInfo.name} API Key`} &rarr;
               </a>
-            </div>
-          )}
+            )}
+          </div>
+          <div>
+            <label htmlFor="vault-passphrase" className="block text-sm text-gray-400 mb-1">Vault passphrase (optional)</label>
+            <input
+              id="vault-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="Encrypt your keys with a passphrase"
+            />
+          </div>
           <button
             type="submit"
             className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed"
@@ -81,49 +86,38 @@ const ApiKeySetup: React.FC<{ onApiKeySubmit: (keys: ApiKeys) => void }> = ({ on
           </button>
         </form>
         <p className="text-center text-sm text-gray-500">
-          Your API keys are stored securely in your browser's local storage.
+          Your API keys are stored in your browser's local storage, encrypted when you set a passphrase.
         </p>
+        <label className="block text-center text-sm text-indigo-400 hover:text-indigo-300 cursor-pointer">
+          Import an encrypted vault file
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onImportVault(file); e.target.value = ''; }} />
+        </label>
       </div>
     </div>
   );
 };
 
 const App: React.FC = () => {
-  const [apiKeys, setApiKeys] = useState<ApiKeys>({ google: [], openai: [] });
+  const [apiKeys, setApiKeys] = useState<ApiKeys>(createEmptyApiKeys);
   const [isLoading, setIsLoading] = useState(true);
+  // A vault waiting for its passphrase, either stored in this browser or just imported.
+  const [lockedVault, setLockedVault] = useState<EncryptedVault | null>(null);
+  const [isImportedVault, setIsImportedVault] = useState(false);
+  const [isVaultEnabled, setIsVaultEnabled] = useState(false);
+  const [isVaultModalOpen, setIsVaultModalOpen] = useState(false);
+  const vaultSessionRef = useRef<VaultSession | null>(null);
+  const vaultWriteRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     try {
-      const storedKeysStr = localStorage.getItem('ai_api_keys');
-      if (storedKeysStr) {
-        const storedKeys = JSON.parse(storedKeysStr);
-        setApiKeys({
-            google: storedKeys.google || [],
-            openai: storedKeys.openai || [],
-        });
-      } else {
-        // Migration logic for old key format
-        const oldGoogleKeysStr = localStorage.getItem('gemini_api_key');
-        if (oldGoogleKeysStr) {
-            let googleKeys: string[] = [];
-            try {
-                const parsed = JSON.parse(oldGoogleKeysStr);
-                if (Array.isArray(parsed)) {
-                    googleKeys = parsed;
-                } else if (typeof parsed === 'string') {
-                    googleKeys = [parsed];
-                }
-            } catch (e) {
-                googleKeys = [oldGoogleKeysStr]; // Plain string
-            }
-            
-            if (googleKeys.length > 0) {
-                const newKeys = { google: googleKeys, openai: [] };
-                localStorage.setItem('ai_api_keys', JSON.stringify(newKeys));
-                setApiKeys(newKeys);
-                localStorage.removeItem('gemini_api_key'); // Clean up old key
-            }
-        }
+      const storedVault = loadStoredVault();
+      if (storedVault) {
+        setLockedVault(storedVault);
+        return;
+      }
+      const storedKeys = loadStoredApiKeys();
+      if (storedKeys) {
+        setApiKeys(storedKeys);
       }
     } catch (error) {
       console.error("Could not access local storage:", error);
@@ -132,15 +126,46 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleApiKeySubmit = useCallback((keys: ApiKeys) => {
+  // Saves keys in plain text, or encrypted while a vault session is open.
+  const persistKeys = useCallback((keys: ApiKeys) => {
+    const session = vaultSessionRef.current;
+    if (!session) {
+      saveStoredApiKeys(keys);
+      return;
+    }
+    // Writes are chained so a slow encryption never overwrites a newer one.
+    vaultWriteRef.current = vaultWriteRef.current
+      .then(() => sealKeys(session, keys))
+      .then(storeVault)
+      .catch(error => {
+        console.error("Could not save the key vault:", error);
+        alert("Error: Could not save API keys to the encrypted vault.");
+      });
+  }, []);
+
+  // Encrypts the keys under a new passphrase and drops the plain-text copy.
+  const startVaultSession = useCallback(async (passphrase: string, keys: ApiKeys) => {
+    await vaultWriteRef.current;
+    const session = await createVaultSession(passphrase);
+    storeVault(await sealKeys(session, keys));
+    removeStoredApiKeys();
+    vaultSessionRef.current = session;
+    setIsVaultEnabled(true);
+  }, []);
+
+  const handleApiKeySubmit = useCallback(async (keys: ApiKeys, passphrase?: string) => {
     try {
-      localStorage.setItem('ai_api_keys', JSON.stringify(keys));
+      if (passphrase) {
+        await startVaultSession(passphrase, keys);
+      } else {
+        persistKeys(keys);
+      }
       setApiKeys(keys);
     } catch (error) {
       console.error("Could not save to local storage:", error);
       alert("Error: Could not save API keys. Please ensure local storage is enabled.");
     }
-  }, []);
+  }, [persistKeys, startVaultSession]);
 
   const handleAddKeys = useCallback((keysToAdd: string, provider: Provider) => {
     try {
@@ -150,7 +175,7 @@ const App: React.FC = () => {
                 const existingKeys = prevKeys[provider] || [];
                 const updatedKeysForProvider = Array.from(new Set([...existingKeys, ...newKeysArray]));
                 const finalKeys = { ...prevKeys, [provider]: updatedKeysForProvider };
-                localStorage.setItem('ai_api_keys', JSON.stringify(finalKeys));
+                persistKeys(finalKeys);
                 return finalKeys;
             });
         }
@@ -158,32 +183,111 @@ const App: React.FC = () => {
         console.error("Could not save to local storage:", error);
         alert("Error: Could not save API keys. Please ensure local storage is enabled.");
     }
-  }, []);
+  }, [persistKeys]);
   
   const handleRemoveKey = useCallback((keyToRemove: string, provider: Provider) => {
     try {
         setApiKeys(prevKeys => {
             const updatedKeysForProvider = (prevKeys[provider] || []).filter(key => key !== keyToRemove);
             const finalKeys = { ...prevKeys, [provider]: updatedKeysForProvider };
-            localStorage.setItem('ai_api_keys', JSON.stringify(finalKeys));
+            persistKeys(finalKeys);
             return finalKeys;
         });
     } catch (error) {
         console.error("Could not update local storage:", error);
         alert("Error: Could not remove API key. Please ensure local storage is enabled.");
     }
-  }, []);
+  }, [persistKeys]);
   
-  const handleClearAllKeys = useCallback(() => {
+  const handleClearAllKeys = useCallback(async () => {
+    vaultSessionRef.current = null;
+    await vaultWriteRef.current;
     try {
-      localStorage.removeItem('ai_api_keys');
-      localStorage.removeItem('gemini_api_key'); // Also clear old key just in case
-      setApiKeys({ google: [], openai: [] });
+      removeStoredApiKeys();
+      removeStoredVault();
+      setApiKeys(createEmptyApiKeys());
+      setIsVaultEnabled(false);
     } catch (error) {
        console.error("Could not clear from local storage:", error);
     }
   }, []);
 
+  const handleUnlockVault = async (passphrase: string) => {
+    if (!lockedVault) return;
+    const { session, keys } = await unlockVault(lockedVault, passphrase);
+    if (isImportedVault) {
+      storeVault(lockedVault);
+      removeStoredApiKeys();
+    }
+    vaultSessionRef.current = session;
+    setApiKeys(normalizeApiKeys(keys));
+    setIsVaultEnabled(true);
+    setLockedVault(null);
+    setIsImportedVault(false);
+  };
+
+  const handleCancelUnlock = () => {
+    if (!isImportedVault) {
+      if (!window.confirm("Delete the encrypted vault and all keys in it? You will need to enter your API keys again.")) return;
+      removeStoredVault();
+    }
+    setLockedVault(null);
+    setIsImportedVault(false);
+  };
+
+  const handleImportVault = async (file: File) => {
+    try {
+      setLockedVault(parseVault(await file.text()));
+      setIsImportedVault(true);
+    } catch (error: any) {
+      console.error("Could not import vault:", error);
+      alert(`Error: ${error?.message ?? 'Could not read the vault file.'}`);
+    }
+  };
+
+  const handleChangePassphrase = async (currentPassphrase: string, newPassphrase: string) => {
+    await vaultWriteRef.current;
+    const storedVault = loadStoredVault();
+    if (!storedVault) throw new Error('No vault is stored in this browser.');
+    await unlockVault(storedVault, currentPassphrase);
+    await startVaultSession(newPassphrase, apiKeys);
+  };
+
+  const handleDisableVault = async () => {
+    if (!window.confirm("Store your API keys unencrypted in this browser again?")) return;
+    vaultSessionRef.current = null;
+    await vaultWriteRef.current;
+    try {
+      saveStoredApiKeys(apiKeys);
+      removeStoredVault();
+      setIsVaultEnabled(false);
+    } catch (error) {
+      console.error("Could not save to local storage:", error);
+      alert("Error: Could not save API keys. Please ensure local storage is enabled.");
+    }
+  };
+
+  const handleExportVault = async () => {
+    await vaultWriteRef.current;
+    const storedVault = loadStoredVault();
+    if (!storedVault) return alert("No vault is stored in this browser.");
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(storedVault, null, 2)], { type: 'application/json' }));
+    link.download = 'api-keys.vault.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleLockVault = async () => {
+    vaultSessionRef.current = null;
+    await vaultWriteRef.current;
+    setIsVaultModalOpen(false);
+    setApiKeys(createEmptyApiKeys());
+    setIsVaultEnabled(false);
+    setLockedVault(loadStoredVault());
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-900">
@@ -192,14 +296,27 @@ const App: React.FC = () => {
     );
   }
   
-  const hasAnyKey = apiKeys.google.length > 0 || apiKeys.openai.length > 0;
+  const hasAnyKey = hasAnyApiKey(apiKeys);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
-      {hasAnyKey ? (
-        <ImageGenerator apiKeys={apiKeys} onClearAllKeys={handleClearAllKeys} onAddKeys={handleAddKeys} onRemoveKey={handleRemoveKey} />
+      {lockedVault ? (
+        <VaultUnlockScreen isImported={isImportedVault} onUnlock={handleUnlockVault} onCancel={handleCancelUnlock} />
+      ) : hasAnyKey ? (
+        <ImageGenerator apiKeys={apiKeys} onClearAllKeys={handleClearAllKeys} onAddKeys={handleAddKeys} onRemoveKey={handleRemoveKey} isVaultEnabled={isVaultEnabled} onOpenVault={() => setIsVaultModalOpen(true)} />
       ) : (
-        <ApiKeySetup onApiKeySubmit={handleApiKeySubmit} />
+        <ApiKeySetup onApiKeySubmit={handleApiKeySubmit} onImportVault={handleImportVault} />
+      )}
+      {isVaultModalOpen && (
+        <KeyVaultModal
+          isEnabled={isVaultEnabled}
+          onClose={() => setIsVaultModalOpen(false)}
+          onEnable={(passphrase) => startVaultSession(passphrase, apiKeys)}
+          onChangePassphrase={handleChangePassphrase}
+          onDisable={handleDisableVault}
+          onExport={handleExportVault}
+          onLock={handleLockVault}
+        />
       )}
        <footer className="absolute bottom-4 right-4 text-gray-500">
           <a href="https://github.com/google/prompt-gallery/tree/main/frames/csv-to-image-generator" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 hover:text-gray-300">
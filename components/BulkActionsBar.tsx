@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ModelId } from '../types';
+import { MODELS } from '../services/providers';
+import { DownloadIcon, RetryIcon, TrashIcon } from './icons';
+
+interface BulkActionsBarProps {
+    selectedCount: number;
+    failedCount: number;
+    totalCount: number;
+    defaultModel: ModelId;
+    disabled: boolean;
+    onSelectAll: () => void;
+    onSelectFailed: () => void;
+    onClearSelection: () => void;
+    onRetrySelected: () => void;
+    onRetryAllFailed: () => void;
+    onRegenerateWithModel: (model: ModelId) => void;
+    onFindReplace: (find: string, replacement: string) => void;
+    onDownloadSelected: () => void;
+    onDeleteSelected: () => void;
+}
+
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+    selectedCount, failedCount, totalCount, defaultModel, disabled,
+    onSelectAll, onSelectFailed, onClearSelection, onRetrySelected, onRetryAllFailed,
+    onRegenerateWithModel, onFindReplace, onDownloadSelected, onDeleteSelected,
+}) => {
+    const [model, setModel] = useState<ModelId>(defaultModel);
+    const [find, setFind] = useState('');
+    const [replacement, setReplacement] = useState('');
+
+    const hasSelection = selectedCount > 0;
+    const buttonClassName = "flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+    const inputClassName = "px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+
+    return (
+        <div className="flex flex-col gap-3 bg-gray-800/50 p-4 rounded-lg">
+            <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm text-gray-300 mr-2"><span className="font-bold">{selectedCount}</span> of {totalCount} selected</p>
+                <button onClick={onSelectAll} disabled={disabled} className={buttonClassName}>Select all</button>
+                <button onClick={onSelectFailed} disabled={disabled || failedCount === 0} className={buttonClassName}>Select failed ({failedCount})</button>
+                <button onClick={onClearSelection} disabled={disabled || !hasSelection} className={buttonClassName}>Clear</button>
+                <div className="flex-grow" />
+                <button onClick={onRetryAllFailed} disabled={disabled || failedCount === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    <RetryIcon className="w-4 h-4" /><span>Retry all failed</span>
+                </button>
+            </div>
+            {hasSelection && (
+                <div className="flex flex-wrap items-center gap-2 border-t border-gray-700 pt-3">
+                    <button onClick={onRetrySelected} disabled={disabled} className={buttonClassName} title="Regenerate the selected rows with the current settings">
+                        <RetryIcon className="w-4 h-4" /><span>Regenerate</span>
+                    </button>
+                    <div className="flex items-center gap-1">
+                        <select value={model} onChange={(e) => setModel(e.target.value as ModelId)} disabled={disabled} className={inputClassName}>
+                            {Object.values(MODELS).map(({ id, name }) => <option key={id} value={id}>{name}</option>)}
+                        </select>
+                        <button onClick={() => onRegenerateWithModel(model)} disabled={disabled} className={buttonClassName} title="Regenerate the selected rows with this model">With model</button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <input type="text" value={find} onChange={(e) => setFind(e.target.value)} placeholder="Find" disabled={disabled} className={`${inputClassName} w-32`} />
+                        <input type="text" value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replace with" disabled={disabled} className={`${inputClassName} w-32`} />
+                        <button onClick={() => onFindReplace(find, replacement)} disabled={disabled || find === ''} className={buttonClassName} title="Replace the text in the selected prompts, then regenerate the rows that changed">Replace &amp; regenerate</button>
+                    </div>
+                    <div className="flex-grow" />
+                    <button onClick={onDownloadSelected} disabled={disabled} className={buttonClassName}>
+                        <DownloadIcon className="w-4 h-4" /><span>Download</span>
+                    </button>
+                    <button onClick={onDeleteSelected} disabled={disabled} className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-red-800 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        <TrashIcon className="w-4 h-4" /><span>Delete</span>
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BulkActionsBar;
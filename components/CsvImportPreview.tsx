@@ -0,0 +1,110 @@
+import React from 'react';
+import { CsvField, RejectedCsvRow } from '../types';
+import { CSV_FIELD_LABELS } from '../services/csvImport';
+import { ErrorIcon } from './icons';
+
+interface CsvImportPreviewProps {
+    data: string[][];
+    hasHeader: boolean;
+    mapping: CsvField[];
+    acceptedCount: number;
+    rejected: RejectedCsvRow[];
+    disabled: boolean;
+    onHeaderChange: (hasHeader: boolean) => void;
+    onMappingChange: (columnIndex: number, field: CsvField) => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+const CsvImportPreview: React.FC<CsvImportPreviewProps> = ({
+    data,
+    hasHeader,
+    mapping,
+    acceptedCount,
+    rejected,
+    disabled,
+    onHeaderChange,
+    onMappingChange,
+}) => {
+    if (data.length === 0) return null;
+
+    const previewRows = data.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROW_COUNT);
+    const rejectedLines = new Set(rejected.map(r => r.line));
+    const firstPreviewLine = hasHeader ? 2 : 1;
+
+    return (
+        <div className="md:col-span-3 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="font-semibold text-lg text-white">Column Mapping</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={hasHeader}
+                        onChange={(e) => onHeaderChange(e.target.checked)}
+                        disabled={disabled}
+                        className="accent-indigo-600"
+                    />
+                    First row is a header
+                </label>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-gray-700">
+                <table className="min-w-full text-xs font-mono">
+                    <thead className="bg-gray-900">
+                        <tr>
+                            <th className="px-2 py-2 text-left text-gray-500 font-normal">Line</th>
+                            {mapping.map((field, i) => (
+                                <th key={i} className="px-2 py-2 text-left">
+                                    <select
+                                        value={field}
+                                        onChange={(e) => onMappingChange(i, e.target.value as CsvField)}
+                                        disabled={disabled}
+                                        className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white font-sans"
+                                        title={hasHeader ? data[0][i] : undefined}
+                                    >
+                                        {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(option => (
+                                            <option key={option} value={option}>{CSV_FIELD_LABELS[option]}</option>
+                                        ))}
+                                    </select>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {previewRows.map((row, rowIndex) => {
+                            const line = firstPreviewLine + rowIndex;
+                            return (
+                                <tr key={line} className={`border-t border-gray-700 ${rejectedLines.has(line) ? 'bg-red-900/20' : ''}`}>
+                                    <td className="px-2 py-1.5 text-gray-500">{line}</td>
+                                    {mapping.map((field, i) => (
+                                        <td key={i} className={`px-2 py-1.5 max-w-xs truncate ${field === 'ignore' ? 'text-gray-600' : 'text-gray-300'}`} title={row[i]}>{row[i]}</td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <p className="text-sm text-gray-400">
+                <span className="text-green-400 font-semibold">{acceptedCount}</span> rows ready
+                {rejected.length > 0 && <>, <span className="text-red-400 font-semibold">{rejected.length}</span> rejected</>}
+            </p>
+
+            {rejected.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-lg bg-black/20 p-2 space-y-1">
+                    {rejected.map(row => (
+                        <div key={row.line} className="flex items-start gap-2 text-xs">
+                            <ErrorIcon className="w-4 h-4 text-red-400 flex-shrink-0" />
+                            <span className="text-gray-500 font-mono flex-shrink-0">Line {row.line}:</span>
+                            <span className="text-red-300 flex-shrink-0">{row.reason}</span>
+                            <span className="text-gray-500 font-mono truncate" title={row.values.join(', ')}>{row.values.join(', ')}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CsvImportPreview;
@@ -1,51 +1,202 @@
-
 import React, { useState } from 'react';
-import { ImageResult } from '../types';
-import { CloseIcon, GenerateIcon } from './icons';
+import { ImageEditOptions, ImageResult, ImageVariant, ModelId } from '../types';
+import { MODELS } from '../services/providers';
+import { blobToDataUrl } from '../services/imageData';
+import { getChosenVariant, hasImage } from '../services/results';
+import { ClockIcon, CloseIcon, EditIcon, GenerateIcon, UploadIcon } from './icons';
+import MaskCanvas from './MaskCanvas';
 
 interface EditModalProps {
     result: ImageResult;
     onClose: () => void;
-    onSave: (id: string, newPrompt: string) => void;
+    onSave: (id: string, newPrompt: string, translationOverride?: string) => void;
+    onEditImage: (id: string, options: ImageEditOptions) => void;
+    onShowHistory: (id: string) => void;
 }
 
-const EditModal: React.FC<EditModalProps> = ({ result, onClose, onSave }) => {
+const EDIT_MODEL_IDS = (Object.keys(MODELS) as ModelId[]).filter(id => !!MODELS[id].edit);
+
+const EditModal: React.FC<EditModalProps> = ({ result, onClose, onSave, onEditImage, onShowHistory }) => {
+    const canEditImage = hasImage(result) && EDIT_MODEL_IDS.length > 0;
+    const [mode, setMode] = useState<'regenerate' | 'edit'>(canEditImage ? 'edit' : 'regenerate');
     const [prompt, setPrompt] = useState(result.prompt);
+    const [translation, setTranslation] = useState(result.translationOverride ?? '');
+    const [isTranslationEdited, setIsTranslationEdited] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const [editModel, setEditModel] = useState<ModelId>(() => {
+        const current = result.generation?.model;
+        return current && EDIT_MODEL_IDS.includes(current) ? current : EDIT_MODEL_IDS[0];
+    });
+    const [referenceImage, setReferenceImage] = useState<ImageVariant | null>(null);
+    const [mask, setMask] = useState<string | null>(null);
+
+    const editing = MODELS[editModel]?.capabilities.editing;
+    const sourceImage = hasImage(result) ? getChosenVariant(result) : null;
+    const historyCount = result.history?.length ?? 0;
 
     const handleSave = () => {
-        if (prompt.trim()) {
-            onSave(result.id, prompt.trim());
+        if (!prompt.trim()) return;
+        // A hand-written translation of the old prompt would not match a changed one.
+        const keepOverride = isTranslationEdited || prompt.trim() === result.prompt;
+        onSave(result.id, prompt.trim(), keepOverride ? translation.trim() || undefined : undefined);
+    };
+
+    const handleEdit = () => {
+        if (!instruction.trim()) return;
+        onEditImage(result.id, {
+            instruction: instruction.trim(),
+            model: editModel,
+            referenceImage: editing?.supportsReferenceImage ? referenceImage ?? undefined : undefined,
+            mask: editing?.supportsMask ? mask ?? undefined : undefined,
+        });
+    };
+
+    const handleReferenceChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        try {
+            setReferenceImage({ imageUrl: await blobToDataUrl(file), mimeType: file.type || 'image/png' });
+        } catch (error) {
+            console.error("Could not read reference image:", error);
+            alert("Error: Could not read the reference image.");
         }
+        event.target.value = '';
     };
+
+    const tabClassName = (active: boolean) =>
+        `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
     
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-2xl relative" onClick={e => e.stopPropagation()}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto relative" onClick={e => e.stopPropagation()}>
                 <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
                     <CloseIcon className="w-6 h-6" />
                 </button>
                 <div className="p-8">
                     <h2 className="text-2xl font-bold text-white mb-2">Edit & Regenerate</h2>
-                    <p className="text-gray-400 mb-6">Modify the prompt for image <span className="font-mono bg-gray-700 px-1.5 py-0.5 rounded">{result.id}</span> and generate it again.</p>
-
-                    <textarea
-                        value={prompt}
-                        onChange={(e) => setPrompt(e.target.value)}
-                        rows={4}
-                        className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors"
-                        placeholder="Enter your new prompt here"
-                    />
-                    
-                    <div className="mt-6 flex justify-end">
-                        <button
-                            onClick={handleSave}
-                            disabled={!prompt.trim()}
-                            className="flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold transition-colors disabled:bg-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed"
-                        >
-                            <GenerateIcon className="w-5 h-5" />
-                            <span>Regenerate Image</span>
-                        </button>
-                    </div>
+                    <p className="text-gray-400 mb-4">Change image <span className="font-mono bg-gray-700 px-1.5 py-0.5 rounded">{result.id}</span> with an instruction, or modify its prompt and generate it again.</p>
+
+                    {(canEditImage || historyCount > 0) && (
+                        <div className="flex items-center gap-2 mb-6">
+                            {canEditImage && (
+                                <>
+                                    <button onClick={() => setMode('edit')} className={tabClassName(mode === 'edit')}>Edit Image</button>
+                                    <button onClick={() => setMode('regenerate')} className={tabClassName(mode === 'regenerate')}>Regenerate</button>
+                                </>
+                            )}
+                            {historyCount > 0 && (
+                                <button onClick={() => onShowHistory(result.id)} className="ml-auto flex items-center gap-1.5 text-sm text-indigo-400 hover:text-indigo-300">
+                                    <ClockIcon className="w-4 h-4" />
+                                    History ({historyCount})
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {mode === 'edit' && sourceImage ? (
+                        <>
+                            <div className="flex flex-col gap-4">
+                                <label className="flex flex-col gap-1 text-sm text-gray-300">
+                                    Edit with
+                                    <select
+                                        value={editModel}
+                                        onChange={(e) => {
+                                            setEditModel(e.target.value as ModelId);
+                                            setMask(null);
+                                        }}
+                                        className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    >
+                                        {EDIT_MODEL_IDS.map(id => <option key={id} value={id}>{MODELS[id].name}</option>)}
+                                    </select>
+                                </label>
+
+                                {editing?.supportsMask ? (
+                                    <div>
+                                        <p className="text-xs text-gray-500 mb-2">Paint over the area to change. Without a mask the model may change the whole image.</p>
+                                        <MaskCanvas key={editModel} imageUrl={sourceImage.imageUrl} onMaskChange={setMask} />
+                                    </div>
+                                ) : (
+                                    <img src={sourceImage.imageUrl} alt={result.prompt} className="w-full max-h-80 object-contain rounded-lg bg-gray-900" />
+                                )}
+
+                                {editing?.supportsReferenceImage && (
+                                    <div className="flex items-center gap-3 text-sm text-gray-300">
+                                        <label className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 cursor-pointer transition-colors">
+                                            <UploadIcon className="w-4 h-4" />
+                                            {referenceImage ? 'Change reference image' : 'Add reference image'}
+                                            <input type="file" accept="image/*" onChange={handleReferenceChange} className="hidden" />
+                                        </label>
+                                        {referenceImage && (
+                                            <>
+                                                <img src={referenceImage.imageUrl} alt="Reference" className="w-12 h-12 object-cover rounded" />
+                                                <button onClick={() => setReferenceImage(null)} className="text-gray-400 hover:text-white text-xs">Remove</button>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
+                                <textarea
+                                    value={instruction}
+                                    onChange={(e) => setInstruction(e.target.value)}
+                                    rows={3}
+                                    className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors"
+                                    placeholder={editing?.supportsMask ? 'Describe the full image you want, e.g. "a lake at dusk under a dark stormy sky"' : 'Describe the change, e.g. "make the sky darker"'}
+                                />
+                            </div>
+
+                            <div className="mt-6 flex justify-end">
+                                <button
+                                    onClick={handleEdit}
+                                    disabled={!instruction.trim()}
+                                    className="flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold transition-colors disabled:bg-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    <EditIcon className="w-5 h-5" />
+                                    <span>Apply Edit</span>
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <textarea
+                                value={prompt}
+                                onChange={(e) => setPrompt(e.target.value)}
+                                rows={4}
+                                className="w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors"
+                                placeholder="Enter your new prompt here"
+                            />
+                            {result.expandedPrompt && result.expandedPrompt !== result.prompt && (
+                                <div className="mt-3 text-xs rounded-lg bg-black/20 p-3">
+                                    <p className="text-gray-500 mb-1">Last sent to the model (after template and style preset):</p>
+                                    <p className="text-gray-300 font-mono break-words">{result.expandedPrompt}</p>
+                                </div>
+                            )}
+                            <label className="block mt-4 text-sm text-gray-400" htmlFor="translation-override">
+                                English translation <span className="text-gray-500">(optional, replaces the automatic translation of the full prompt)</span>
+                            </label>
+                            <textarea
+                                id="translation-override"
+                                value={translation}
+                                onChange={(e) => { setTranslation(e.target.value); setIsTranslationEdited(true); }}
+                                rows={3}
+                                className="mt-1 w-full p-3 bg-gray-900 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors"
+                                placeholder={result.translatedPrompt ? `Automatic: ${result.translatedPrompt}` : 'Leave empty to translate automatically'}
+                            />
+                            {translation && (
+                                <button onClick={() => { setTranslation(''); setIsTranslationEdited(true); }} className="mt-1 text-xs text-indigo-400 hover:text-indigo-300">Use automatic translation</button>
+                            )}
+                            
+                            <div className="mt-6 flex justify-end">
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!prompt.trim()}
+                                    className="flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold transition-colors disabled:bg-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    <GenerateIcon className="w-5 h-5" />
+                                    <span>Regenerate Image</span>
+                                </button>
+                            </div>
+                        </>
+                    )}
                 </div>
             </div>
         </div>
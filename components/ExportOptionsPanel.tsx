@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportProfile } from '../types';
+import { ArchiveOptions } from '../services/exportArchive';
+import { createCustomProfile, EXPORT_PROFILES } from '../services/exportProfiles';
+
+interface ExportOptionsPanelProps {
+    options: ArchiveOptions;
+    onChange: (options: ArchiveOptions) => void;
+    disabled: boolean;
+}
+
+const isCustomProfile = (profile: ExportProfile) => !EXPORT_PROFILES.some(p => p.id === profile.id);
+
+const ExportOptionsPanel: React.FC<ExportOptionsPanelProps> = ({ options, onChange, disabled }) => {
+    const existingCustom = options.profiles.find(isCustomProfile);
+    const [customWidth, setCustomWidth] = useState(existingCustom?.width ?? 1200);
+    const [customHeight, setCustomHeight] = useState(existingCustom?.height ?? 1200);
+
+    const presetProfiles = options.profiles.filter(p => !isCustomProfile(p));
+
+    const setProfiles = (profiles: ExportProfile[]) => onChange({ ...options, profiles });
+
+    const toggleProfile = (profile: ExportProfile) => {
+        const isSelected = options.profiles.some(p => p.id === profile.id);
+        setProfiles(isSelected ? options.profiles.filter(p => p.id !== profile.id) : [...options.profiles, profile]);
+    };
+
+    const setCustomProfile = (enabled: boolean, width = customWidth, height = customHeight) => {
+        const valid = width > 0 && height > 0;
+        setProfiles(enabled && valid ? [...presetProfiles, createCustomProfile(width, height)] : presetProfiles);
+    };
+
+    const handleCustomSizeChange = (width: number, height: number) => {
+        setCustomWidth(width);
+        setCustomHeight(height);
+        if (existingCustom) setCustomProfile(true, width, height);
+    };
+
+    const showQuality = options.format === 'image/jpeg' || options.format === 'image/webp';
+    const numberInputClassName = "w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm disabled:opacity-50";
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 bg-gray-800/50 p-4 rounded-lg mt-2">
+            <div className="flex flex-col gap-3">
+                <h4 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">File Format</h4>
+                <div className="flex items-center gap-4 flex-wrap">
+                    <select
+                        value={options.format}
+                        onChange={(e) => onChange({ ...options, format: e.target.value as ExportFormat })}
+                        disabled={disabled}
+                        className="px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        title="File format of the exported images"
+                    >
+                        <option value="original">Original format</option>
+                        <option value="image/png">PNG</option>
+                        <option value="image/jpeg">JPEG</option>
+                        <option value="image/webp">WebP</option>
+                    </select>
+                    {showQuality && (
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            Quality: <span className="font-bold w-8">{Math.round(options.quality * 100)}</span>
+                            <input type="range" min="0.5" max="1" step="0.01" value={options.quality} onChange={(e) => onChange({ ...options, quality: Number(e.target.value) })} disabled={disabled} className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                        </label>
+                    )}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-300" title="Add a .json file with prompt, model and settings next to each image">
+                    <input type="checkbox" checked={options.includeSidecars} onChange={(e) => onChange({ ...options, includeSidecars: e.target.checked })} disabled={disabled} className="accent-indigo-600" />
+                    Per-image .json sidecars
+                </label>
+            </div>
+            <div className="flex flex-col gap-3">
+                <h4 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Social Media Sizes</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {EXPORT_PROFILES.map(profile => (
+                        <label key={profile.id} className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={options.profiles.some(p => p.id === profile.id)}
+                                onChange={() => toggleProfile(profile)}
+                                disabled={disabled}
+                                className="accent-indigo-600"
+                            />
+                            {profile.name} <span className="text-gray-500 text-xs">{profile.width}x{profile.height}</span>
+                        </label>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={!!existingCustom} onChange={(e) => setCustomProfile(e.target.checked)} disabled={disabled} className="accent-indigo-600" />
+                    Custom
+                    <input type="number" min="1" value={customWidth} onChange={(e) => handleCustomSizeChange(Number(e.target.value), customHeight)} disabled={disabled} className={numberInputClassName} />
+                    x
+                    <input type="number" min="1" value={customHeight} onChange={(e) => handleCustomSizeChange(customWidth, Number(e.target.value))} disabled={disabled} className={numberInputClassName} />
+                </div>
+                <p className="text-xs text-gray-500">Each selected size gets its own folder in the ZIP, cropped around the most detailed part of the image.</p>
+            </div>
+        </div>
+    );
+};
+
+export default ExportOptionsPanel;
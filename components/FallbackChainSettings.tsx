@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ApiKeys, ModelId, Provider } from '../types';
+import { MODELS } from '../services/providers';
+import { ChevronLeftIcon, ChevronRightIcon, TrashIcon } from './icons';
+
+interface FallbackChainSettingsProps {
+    primaryModel: ModelId;
+    fallbackModels: ModelId[];
+    onChange: (models: ModelId[]) => void;
+    apiKeys: ApiKeys;
+    disabled: boolean;
+}
+
+const FallbackChainSettings: React.FC<FallbackChainSettingsProps> = ({ primaryModel, fallbackModels, onChange, apiKeys, disabled }) => {
+    const available = (Object.keys(MODELS) as ModelId[]).filter(id => id !== primaryModel && !fallbackModels.includes(id));
+    const [modelToAdd, setModelToAdd] = useState<ModelId | ''>('');
+
+    const moveModel = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= fallbackModels.length) return;
+        const reordered = [...fallbackModels];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    const addModel = () => {
+        if (!modelToAdd) return;
+        onChange([...fallbackModels, modelToAdd]);
+        setModelToAdd('');
+    };
+
+    const hasKeys = (id: ModelId) => apiKeys[MODELS[id].provider as Provider].length > 0;
+    const iconButtonClassName = "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent";
+
+    return (
+        <div className="flex flex-col gap-2">
+            <label className="text-sm">Fallback Models</label>
+            <ol className="flex flex-col gap-1 text-sm">
+                <li className="px-3 py-1.5 bg-gray-900/40 rounded-lg text-gray-300">1. {MODELS[primaryModel].name} <span className="text-xs text-gray-500">(selected model)</span></li>
+                {fallbackModels.map((id, index) => (
+                    <li key={id} className="flex items-center gap-2 px-3 py-1.5 bg-gray-900/40 rounded-lg">
+                        <span className="flex-grow text-gray-300">
+                            {index + 2}. {MODELS[id]?.name ?? id}
+                            {MODELS[id] && !hasKeys(id) && <span className="text-xs text-yellow-400"> (no {MODELS[id].provider} keys)</span>}
+                        </span>
+                        <button onClick={() => moveModel(index, -1)} disabled={disabled || index === 0} title="Try earlier" className={`${iconButtonClassName} rotate-90`}>
+                            <ChevronLeftIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => moveModel(index, 1)} disabled={disabled || index === fallbackModels.length - 1} title="Try later" className={`${iconButtonClassName} rotate-90`}>
+                            <ChevronRightIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => onChange(fallbackModels.filter(m => m !== id))} disabled={disabled} title="Remove" className={iconButtonClassName}>
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            {available.length > 0 && (
+                <div className="flex items-center gap-2">
+                    <select value={modelToAdd} onChange={(e) => setModelToAdd(e.target.value as ModelId)} disabled={disabled} className="flex-grow px-3 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50">
+                        <option value="">Add a fallback model...</option>
+                        {available.map(id => <option key={id} value={id}>{MODELS[id].name}</option>)}
+                    </select>
+                    <button onClick={addModel} disabled={disabled || !modelToAdd} className="px-3 py-1.5 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">Add</button>
+                </div>
+            )}
+            <p className="text-xs text-gray-500">When every key of a model is rate-limited or rejected, or its server fails, the row moves to the next model. Unsupported aspect ratios become the closest supported one.</p>
+        </div>
+    );
+};
+
+export default FallbackChainSettings;
@@ -1,24 +1,48 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ImageResult } from '../types';
-import { DownloadIcon, EditIcon, RetryIcon, ErrorIcon } from './icons';
+import { DownloadIcon, EditIcon, RetryIcon, ErrorIcon, ChevronLeftIcon, ChevronRightIcon, StarIcon, ClockIcon } from './icons';
 import Spinner from './Spinner';
+import { getExportName } from '../services/results';
+import { extensionForMimeType } from '../services/imageConversion';
+import { ERROR_CATEGORY_LABELS } from '../services/retryPolicy';
+import { MODELS } from '../services/providers';
 
 interface ImageCardProps {
     result: ImageResult;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
     onRetry: (id: string) => void;
     onEdit: (id: string) => void;
+    onChooseVariant: (id: string, variantIndex: number) => void;
+    onShowHistory: (id: string) => void;
 }
 
-const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
-    const { id, status, imageUrl, error, prompt } = result;
+const ImageCard: React.FC<ImageCardProps> = ({ result, isSelected, onToggleSelect, onRetry, onEdit, onChooseVariant, onShowHistory }) => {
+    const { id, status, variants, chosenVariant, error, errorCategory, attempts, prompt, expandedPrompt, translatedPrompt } = result;
+    const versionCount = result.history?.length ?? 0;
+    const rewrites = result.rewrites ?? [];
+    const [viewedVariant, setViewedVariant] = useState(chosenVariant);
+
+    useEffect(() => {
+        setViewedVariant(chosenVariant);
+    }, [variants, chosenVariant]);
+
+    const imageUrl = variants[viewedVariant]?.imageUrl ?? null;
+    const mimeType = variants[viewedVariant]?.mimeType ?? 'image/png';
+    const hasMultipleVariants = variants.length > 1;
+
+    const showVariant = (offset: number) => {
+        setViewedVariant(prev => (prev + offset + variants.length) % variants.length);
+    };
 
     const handleDownload = () => {
         if (!imageUrl) return;
         const link = document.createElement('a');
         link.href = imageUrl;
-        // The user wants .png, so we name it as such, even if the content is jpeg.
-        link.download = `${id}.png`;
+        const exportName = getExportName(result);
+        const extension = extensionForMimeType(mimeType);
+        link.download = hasMultipleVariants ? `${exportName}-${viewedVariant + 1}.${extension}` : `${exportName}.${extension}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -38,13 +62,43 @@ const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
                     <>
                         <img src={imageUrl!} alt={prompt} className="w-full h-full object-cover" />
                         <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center gap-3 p-4">
+                            {hasMultipleVariants && (
+                                <button
+                                    onClick={() => onChooseVariant(id, viewedVariant)}
+                                    disabled={viewedVariant === chosenVariant}
+                                    title={viewedVariant === chosenVariant ? 'Chosen for export' : 'Choose this variant for export'}
+                                    className="p-3 bg-gray-800/80 rounded-full text-white hover:bg-indigo-600 transition-colors disabled:bg-indigo-600"
+                                >
+                                    <StarIcon className="w-5 h-5" />
+                                </button>
+                            )}
                             <button onClick={handleDownload} title="Download" className="p-3 bg-gray-800/80 rounded-full text-white hover:bg-indigo-600 transition-colors">
                                 <DownloadIcon className="w-5 h-5" />
                             </button>
                             <button onClick={() => onEdit(id)} title="Edit & Regenerate" className="p-3 bg-gray-800/80 rounded-full text-white hover:bg-indigo-600 transition-colors">
                                 <EditIcon className="w-5 h-5" />
                             </button>
+                            {versionCount > 0 && (
+                                <button onClick={() => onShowHistory(id)} title={`Version history (${versionCount} earlier)`} className="p-3 bg-gray-800/80 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                    <ClockIcon className="w-5 h-5" />
+                                </button>
+                            )}
                         </div>
+                        {hasMultipleVariants && (
+                            <>
+                                <button onClick={() => showVariant(-1)} title="Previous variant" className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                    <ChevronLeftIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => showVariant(1)} title="Next variant" className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-gray-900/70 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                    <ChevronRightIcon className="w-4 h-4" />
+                                </button>
+                                <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1.5">
+                                    {variants.map((_, index) => (
+                                        <span key={index} className={`h-1.5 w-1.5 rounded-full ${index === viewedVariant ? 'bg-white' : 'bg-white/40'} ${index === chosenVariant ? 'ring-2 ring-indigo-400' : ''}`} />
+                                    ))}
+                                </div>
+                            </>
+                        )}
                     </>
                 );
             case 'error':
@@ -52,6 +106,11 @@ const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
                     <div className="flex flex-col items-center justify-center h-full p-4 text-center">
                         <ErrorIcon className="w-10 h-10 text-red-400 mb-2" />
                         <p className="text-sm font-semibold text-red-400">Generation Failed</p>
+                        {errorCategory && (
+                            <p className="text-xs text-red-300/80">
+                                {ERROR_CATEGORY_LABELS[errorCategory]}{attempts > 1 ? ` after ${attempts} attempts` : ''}
+                            </p>
+                        )}
                         <p className="text-xs text-gray-400 mt-1 line-clamp-4" title={error}>{error}</p>
                         <div className="mt-4 flex gap-2">
                              <button onClick={() => onRetry(id)} title="Retry" className="p-2 bg-gray-600 rounded-full text-white hover:bg-indigo-600 transition-colors">
@@ -60,9 +119,36 @@ const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
                             <button onClick={() => onEdit(id)} title="Edit & Retry" className="p-2 bg-gray-600 rounded-full text-white hover:bg-indigo-600 transition-colors">
                                 <EditIcon className="w-4 h-4" />
                             </button>
+                            {versionCount > 0 && (
+                                <button onClick={() => onShowHistory(id)} title={`Version history (${versionCount} earlier)`} className="p-2 bg-gray-600 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                    <ClockIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                );
+            case 'cancelled':
+                return (
+                    <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+                        <p className="text-sm font-semibold text-gray-400">Cancelled</p>
+                        <div className="mt-4 flex gap-2">
+                            <button onClick={() => onRetry(id)} title="Retry" className="p-2 bg-gray-600 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                <RetryIcon className="w-4 h-4" />
+                            </button>
+                            {versionCount > 0 && (
+                                <button onClick={() => onShowHistory(id)} title={`Version history (${versionCount} earlier)`} className="p-2 bg-gray-600 rounded-full text-white hover:bg-indigo-600 transition-colors">
+                                    <ClockIcon className="w-4 h-4" />
+                                </button>
+                            )}
                         </div>
                     </div>
                 );
+            case 'paused':
+                return (
+                     <div className="flex flex-col items-center justify-center h-full">
+                        <p className="text-sm text-yellow-400">Paused</p>
+                    </div>
+                );
             case 'pending':
             default:
                 return (
@@ -74,7 +160,14 @@ const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
     };
 
     return (
-        <div className="group relative aspect-square bg-gray-800 border border-gray-700 rounded-lg overflow-hidden shadow-md flex flex-col">
+        <div className={`group relative aspect-square bg-gray-800 border rounded-lg overflow-hidden shadow-md flex flex-col ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-gray-700'}`}>
+            <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onToggleSelect(id)}
+                title="Select for bulk actions"
+                className={`absolute top-2 left-2 z-10 w-4 h-4 accent-indigo-600 cursor-pointer transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+            />
             <div className="flex-grow min-h-0 flex items-center justify-center">
                 {renderContent()}
             </div>
@@ -82,6 +175,26 @@ const ImageCard: React.FC<ImageCardProps> = ({ result, onRetry, onEdit }) => {
                 <p className="text-xs text-gray-300 truncate font-mono" title={prompt}>
                     <span className="font-bold">{id}.</span> {prompt}
                 </p>
+                {expandedPrompt && expandedPrompt !== prompt && (
+                    <p className="text-xs text-gray-500 truncate font-mono" title={expandedPrompt}>
+                        &rarr; {expandedPrompt}
+                    </p>
+                )}
+                {result.generation?.requestedModel && (
+                    <p className="text-xs text-gray-500 truncate" title={`${MODELS[result.generation.requestedModel]?.name ?? result.generation.requestedModel} could not serve this row`}>
+                        via {MODELS[result.generation.model]?.name ?? result.generation.model} (fallback)
+                    </p>
+                )}
+                {translatedPrompt && (
+                    <p className="text-xs text-sky-400/80 truncate font-mono" title={translatedPrompt}>
+                        EN: {translatedPrompt}
+                    </p>
+                )}
+                {rewrites.length > 0 && (
+                    <p className="text-xs text-amber-400/80 truncate font-mono" title={rewrites.map((r, i) => `${i + 1}. ${r.blockedPrompt}\n   blocked: ${r.reason}\n   -> ${r.rewrittenPrompt}`).join('\n')}>
+                        Rewritten ({rewrites.length}x): {rewrites[rewrites.length - 1].rewrittenPrompt}
+                    </p>
+                )}
             </div>
         </div>
     );
@@ -1,51 +1,53 @@
-import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold, Modality } from '@google/genai';
-import Papa from 'papaparse';
-import JSZip from 'jszip';
-import { AspectRatio, CsvRow, ImageResult, ApiKeys, Provider } from '../types';
-import { UploadIcon, GenerateIcon, DownloadIcon, KeyIcon, TuneIcon, ClockIcon, ShieldIcon, AnonymizeIcon } from './icons';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { AspectRatio, CsvRow, CsvField, StylePreset, GenerationMetadata, RejectedCsvRow, ImageEditOptions, ImageResult, ImageVariant, GenerationStatus, ApiKeys, ErrorCategory, KeyHealth, NormalizedProviderError, PreprocessStep, PromptRewrite, Provider, RateLimit, RetryPolicy, SpendEntry, ModelId, SafetyLevel, BatchJob, BatchJobSettings, BatchJobSummary } from '../types';
+import { MODELS, getImageProvider, createProviderRecord, classifyError, mapAspectRatio, getProviderOptionValues } from '../services/providers';
+import { createJobId, deleteJob, deleteJobResults, listJobs, loadJob, saveJob, saveJobResult, saveJobResults } from '../services/jobStore';
+import { isAbortError, sleep } from '../services/timing';
+import { createKeyScheduler, getDefaultRateLimit, loadRateLimits, runWithScheduledKey, saveRateLimits } from '../services/keyScheduler';
+import { EMPTY_KEY_HEALTH, recordKeyAttempt, recordKeyTest } from '../services/keyHealth';
+import { DEFAULT_RETRY_POLICY, runWithRetries } from '../services/retryPolicy';
+import { rewriteBlockedPrompt } from '../services/promptRewrite';
+import { createScheduledTextClient, TextModelClient } from '../services/textModel';
+import { loadPreprocessSteps, savePreprocessSteps } from '../services/promptPipeline';
+import { estimateBatchCost, formatUsd, getBatchSpend, getImagePrice } from '../services/pricing';
+import { addSpend, getKeyLabel, loadSpendHistory, saveSpendHistory } from '../services/spendHistory';
+import { AUTO_DETECT_LANGUAGE, detectPromptLanguage, ENGLISH, getLanguageName, migrateTranslationStep, prepareRowPrompt, PROMPT_LANGUAGES } from '../services/translation';
+import { archiveCurrentVersion, getChosenVariant, hasImage, replaceInPrompt, resolveRowSettings, revertToVersion, selectRowsInRange } from '../services/results';
+import { buildCsvRows, CsvImport, guessColumnMapping, importCsvData, parseCsvText, readCsvFile } from '../services/csvImport';
+import { ArchiveOptions, buildResultsArchive, ResultsArchive } from '../services/exportArchive';
+import { composePrompt, loadStylePresets, saveStylePresets } from '../services/promptTemplates';
+import { UploadIcon, GenerateIcon, DownloadIcon, KeyIcon, TuneIcon, ClockIcon, ShieldIcon, PauseIcon, PlayIcon, StopIcon, TargetIcon } from './icons';
 import ImageCard from './ImageCard';
 import EditModal from './EditModal';
+import VersionHistoryModal from './VersionHistoryModal';
 import ViewKeysModal from './ViewKeysModal';
+import JobList from './JobList';
+import CsvImportPreview from './CsvImportPreview';
+import PromptTemplateSettings from './PromptTemplateSettings';
+import ExportOptionsPanel from './ExportOptionsPanel';
+import RetryPolicySettings from './RetryPolicySettings';
+import BulkActionsBar from './BulkActionsBar';
+import PreprocessPipelineSettings from './PreprocessPipelineSettings';
+import FallbackChainSettings from './FallbackChainSettings';
+import PromptPreviewModal from './PromptPreviewModal';
+import ModelComparisonModal from './ModelComparisonModal';
+import SpendHistoryModal from './SpendHistoryModal';
 
 interface ImageGeneratorProps {
     apiKeys: ApiKeys;
     onClearAllKeys: () => void;
     onAddKeys: (keys: string, provider: Provider) => void;
     onRemoveKey: (key: string, provider: Provider) => void;
+    isVaultEnabled: boolean;
+    onOpenVault: () => void;
 }
 
-const MODELS = {
-    'openai-dalle3': { provider: 'openai', name: 'OpenAI - DALL·E 3' },
-    'google-imagen-4': { provider: 'google', name: 'Google - Imagen 4' },
-    'google-gemini-flash-image': { provider: 'google', name: 'Google - Gemini Flash Image' },
-    'openai-dalle2': { provider: 'openai', name: 'OpenAI - DALL·E 2' },
-};
-
-type SafetyLevel = 'default' | 'lenient' | 'none';
-
-const SAFETY_SETTINGS_CONFIG: Record<Exclude<SafetyLevel, 'default'>, Array<{category: HarmCategory, threshold: HarmBlockThreshold}>> = {
-  lenient: [
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  ],
-  none: [
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  ]
-};
+const RESUMABLE_STATUSES: GenerationStatus[] = ['pending', 'generating', 'paused', 'error', 'cancelled'];
 
+// Failures where another provider may still succeed; prompt problems would fail everywhere.
+const FALLBACK_CATEGORIES: ErrorCategory[] = ['rate_limit', 'auth', 'server'];
 
-const maskKey = (key: string) => {
-    if (!key || key.length <= 8) return '****';
-    return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
-};
-
-const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKeys, onClearAllKeys, onAddKeys, onRemoveKey }) => {
+const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKeys, onClearAllKeys, onAddKeys, onRemoveKey, isVaultEnabled, onOpenVault }) => {
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
     const [prompts, setPrompts] = useState<CsvRow[]>([]);
     const [results, setResults] = useState<ImageResult[]>([]);
@@ -53,64 +55,170 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKeys, onClearAllKeys
     const [progress, setProgress] = useState({ current: 0, total: 0 });
     const [fileName, setFileName] = useState<string>('');
     const [editingResult, setEditingResult] = useState<ImageResult | null>(null);
+    const [historyResultId, setHistoryResultId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+    // Snapshot taken when the preview opens, so later edits to the settings do not restart it.
+    const [promptPreview, setPromptPreview] = useState<{ rows: CsvRow[], settings: BatchJobSettings, client: TextModelClient | null } | null>(null);
+    const [modelComparison, setModelComparison] = useState<{ rows: CsvRow[], settings: BatchJobSettings } | null>(null);
     const [concurrencyLimit, setConcurrencyLimit] = useState(1);
-    const [requestDelay, setRequestDelay] = useState(1000);
+    const [rateLimits, setRateLimits] = useState<Partial<Record<Provider, RateLimit>>>(loadRateLimits);
+    const [variantsPerPrompt, setVariantsPerPrompt] = useState(1);
+    const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+    const [safetyRewriteAttempts, setSafetyRewriteAttempts] = useState(0);
+    const [budgetLimit, setBudgetLimit] = useState(0);
+    const [fallbackModels, setFallbackModels] = useState<ModelId[]>([]);
+    const [providerOptions, setProviderOptions] = useState<BatchJobSettings['providerOptions']>({});
+    // Read by the queue workers, so a raised cap applies to a run that is already paused.
+    const budgetLimitRef = useRef(0);
+    const [isBudgetPaused, setIsBudgetPaused] = useState(false);
+    const [spendHistory, setSpendHistory] = useState<SpendEntry[]>(loadSpendHistory);
+    const [isSpendModalOpen, setIsSpendModalOpen] = useState(false);
+    const [promptTemplate, setPromptTemplate] = useState('');
+    const [stylePresets, setStylePresets] = useState<StylePreset[]>(loadStylePresets);
+    const [selectedStylePresetId, setSelectedStylePresetId] = useState('');
+    const [exportOptions, setExportOptions] = useState<ArchiveOptions>({ includeSidecars: false, format: 'original', quality: 0.92, profiles: [] });
+    const [isExporting, setIsExporting] = useState(false);
     const [isViewKeysModalOpen, setIsViewKeysModalOpen] = useState(false);
     const [safetyLevel, setSafetyLevel] = useState<SafetyLevel>('none');
     
     const [startId, setStartId] = useState<string>('');
     const [endId, setEndId] = useState<string>('');
     
-    const [selectedModel, setSelectedModel] = useState<keyof typeof MODELS>('openai-dalle3');
-    const [activeKeyIndices, setActiveKeyIndices] = useState({ google: 0, openai: 0 });
+    const [selectedModel, setSelectedModel] = useState<ModelId>('openai-dalle3');
+    const [activeKeyIndices, setActiveKeyIndices] = useState<Record<Provider, number>>(() => createProviderRecord(() => 0));
     const [isManualKeySelection, setIsManualKeySelection] = useState(false);
-    const [anonymizePrompts, setAnonymizePrompts] = useState(true);
+    const [preprocessSteps, setPreprocessSteps] = useState<PreprocessStep[]>(loadPreprocessSteps);
+    const [sourceLanguage, setSourceLanguage] = useState(AUTO_DETECT_LANGUAGE);
+    const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
 
     const [inputMode, setInputMode] = useState<'csv' | 'text'>('csv');
     const [textInput, setTextInput] = useState('');
+    const [csvData, setCsvData] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState(false);
+    const [columnMapping, setColumnMapping] = useState<CsvField[]>([]);
+    const [rejectedRows, setRejectedRows] = useState<RejectedCsvRow[]>([]);
 
-    const googleInstances = useMemo(() => apiKeys.google.map(key => new GoogleGenAI({ apiKey: key })), [apiKeys.google]);
-    const googleKeyIndex = useRef(0);
-    const openaiKeyIndex = useRef(0);
+    const [savedJobs, setSavedJobs] = useState<BatchJobSummary[]>([]);
+    const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+    const currentJobIdRef = useRef<string | null>(null);
 
-    const activeProvider = MODELS[selectedModel].provider as Provider;
+    const [isPaused, setIsPaused] = useState(false);
+    const isPausedRef = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const queueRef = useRef<ImageResult[]>([]);
+
+    const keyIndexRefs = useRef<Record<Provider, number>>(createProviderRecord(() => 0));
+    const keySchedulerRef = useRef(createKeyScheduler());
+    const [keyHealth, setKeyHealth] = useState<Record<string, KeyHealth>>({});
+
+    const activeAdapter = getImageProvider(selectedModel);
+    const activeProvider = activeAdapter.provider as Provider;
     const activeKeys = apiKeys[activeProvider];
     const activeKeyIndex = activeKeyIndices[activeProvider];
+    const activeRateLimit = rateLimits[activeProvider] ?? getDefaultRateLimit(activeProvider);
+    const activeOptionValues = getProviderOptionValues(activeAdapter, providerOptions[selectedModel]);
+
+    const batchSettings: BatchJobSettings = {
+        model: selectedModel,
+        aspectRatio,
+        safetyLevel,
+        preprocessSteps,
+        // Once detected, the language is reused for the rest of the session's runs and retries.
+        sourceLanguage: sourceLanguage === AUTO_DETECT_LANGUAGE ? detectedLanguage ?? AUTO_DETECT_LANGUAGE : sourceLanguage,
+        concurrencyLimit,
+        variantsPerPrompt,
+        promptTemplate,
+        stylePreset: stylePresets.find(p => p.id === selectedStylePresetId) ?? null,
+        retryPolicy,
+        safetyRewriteAttempts,
+        budgetLimit,
+        fallbackModels,
+        providerOptions,
+    };
+
+    const rangeSelection = selectRowsInRange(prompts, startId, endId);
+    const costEstimate = prompts.length > 0 && 'rows' in rangeSelection ? estimateBatchCost(rangeSelection.rows, batchSettings) : null;
+
+    const refreshSavedJobs = useCallback(async () => {
+        try {
+            setSavedJobs(await listJobs());
+        } catch (error) {
+            console.error("Could not read saved jobs:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshSavedJobs();
+    }, [refreshSavedJobs]);
+
+    const selectJob = (jobId: string | null) => {
+        currentJobIdRef.current = jobId;
+        setCurrentJobId(jobId);
+    };
+
+    useEffect(() => {
+        setDetectedLanguage(null);
+    }, [prompts]);
 
     useEffect(() => {
         // Reset aspect ratio if not supported by the new model
-        if ((selectedModel === 'openai-dalle2' || selectedModel === 'google-gemini-flash-image') && aspectRatio !== AspectRatio.SQUARE) {
-            setAspectRatio(AspectRatio.SQUARE);
+        const supportedRatios = getImageProvider(selectedModel).capabilities.aspectRatios;
+        if (!supportedRatios.includes(aspectRatio)) {
+            setAspectRatio(supportedRatios[0]);
         }
     }, [selectedModel, aspectRatio]);
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const applyCsvRows = ({ rows, rejected }: Pick<CsvImport, 'rows' | 'rejected'>) => {
+        setPrompts(rows);
+        setRejectedRows(rejected);
+        if (rows.length > 0) {
+            setStartId(rows[0].id);
+            setEndId(rows[rows.length - 1].id);
+        } else {
+            setStartId('');
+            setEndId('');
+        }
+    };
+
+    const applyCsvImport = (data: string[][], header: boolean, mapping: CsvField[]) => {
+        applyCsvRows(buildCsvRows(data, header, mapping));
+    };
+
+    const loadCsvData = (data: string[][], joinExtraColumnsIntoPrompt: boolean) => {
+        const imported = importCsvData(data, joinExtraColumnsIntoPrompt);
+        setCsvData(data);
+        setHasHeader(imported.hasHeader);
+        setColumnMapping(imported.mapping);
+        applyCsvRows(imported);
+    };
+
+    const handleHeaderChange = (header: boolean) => {
+        const mapping = guessColumnMapping(csvData, header, inputMode === 'text');
+        setHasHeader(header);
+        setColumnMapping(mapping);
+        applyCsvImport(csvData, header, mapping);
+    };
+
+    const handleMappingChange = (columnIndex: number, field: CsvField) => {
+        const mapping = columnMapping.map((f, i) => i === columnIndex ? field : f);
+        setColumnMapping(mapping);
+        applyCsvImport(csvData, hasHeader, mapping);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             setTextInput('');
             setFileName(file.name);
             setResults([]);
+            selectJob(null);
             setPrompts([]);
-            Papa.parse(file, {
-                skipEmptyLines: true,
-                complete: (result: any) => {
-                    const parsedPrompts: CsvRow[] = result.data
-                        .map((row: any) => ({ id: row[0]?.trim(), prompt: row[1]?.trim() }))
-                        .filter((p: CsvRow) => p.id && p.prompt && !isNaN(parseInt(p.id, 10)));
-                    setPrompts(parsedPrompts);
-                    if (parsedPrompts.length > 0) {
-                        setStartId(parsedPrompts[0].id);
-                        setEndId(parsedPrompts[parsedPrompts.length - 1].id);
-                    } else {
-                        setStartId('');
-                        setEndId('');
-                    }
-                },
-                error: (error: Error) => {
-                    alert(`Error parsing CSV file: ${error.message}`);
-                    setFileName('');
-                }
-            });
+            try {
+                loadCsvData(await readCsvFile(file), false);
+            } catch (error: any) {
+                alert(`Error parsing CSV file: ${error.message}`);
+                setFileName('');
+            }
         }
     };
 
@@ -119,291 +227,503 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKeys, onClearAllKeys
         setTextInput(text);
         setFileName('');
         setResults([]);
+        selectJob(null);
     
-        Papa.parse(text, {
-            skipEmptyLines: true,
-            complete: (result: { data: string[][] }) => {
-                const parsedPrompts: CsvRow[] = result.data
-                    .map((row: string[]) => {
-                        if (!row || row.length < 2) return null;
-                        const id = row[0]?.trim();
-                        // Join all subsequent columns to form the full prompt, handling commas in prompts
-                        const prompt = row.slice(1).join(',').trim();
-                        return { id, prompt };
-                    })
-                    .filter((p): p is CsvRow => !!p && !!p.id && !!p.prompt && !isNaN(parseInt(p.id, 10)));
-                
-                setPrompts(parsedPrompts);
-                
-                if (parsedPrompts.length > 0) {
-                    setStartId(parsedPrompts[0].id);
-                    setEndId(parsedPrompts[parsedPrompts.length - 1].id);
-                } else {
-                    setStartId('');
-                    setEndId('');
-                }
-            },
-            error: (error: Error) => {
-                console.error(`Error parsing text input: ${error.message}`);
-            }
-        });
+        // Headerless pasted rows keep everything after the ID as the prompt, handling commas in prompts
+        loadCsvData(parseCsvText(text), true);
     };
     
-    const anonymizePrompt = async (prompt: string, aiInstance: GoogleGenAI): Promise<string> => {
-        if (!aiInstance) return prompt;
-    
-        try {
-            const systemInstruction = `You are a prompt sanitization expert. Your task is to identify names of real, famous people (celebrities, politicians, historical figures, etc.) in the user's prompt and replace them with a generic, non-famous, fictional first name (like Alex, Jordan, Casey).
-- Replace each unique famous name consistently with the same fictional name.
-- Do not change any other part of the prompt.
-- If no famous names are found, return the original prompt.
-- Your output must be ONLY the modified (or original) prompt as a single line of text, with no extra formatting, explanation, or labels.
-
-Example 1:
-User: "A photo of Barack Obama playing basketball."
-You: "A photo of Alex playing basketball."
-
-Example 2:
-User: "Impressionist painting of a cat sleeping on a windowsill."
-You: "Impressionist painting of a cat sleeping on a windowsill."
-
-Example 3:
-User: "Taylor Swift and Travis Kelce on a date at a pizzeria."
-You: "Jordan and Casey on a date at a pizzeria."`;
-
-            const response = await aiInstance.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    systemInstruction: systemInstruction,
-                    temperature: 0.2,
-                },
-            });
-    
-            const anonymizedText = response.text.trim();
-            if (anonymizedText) {
-                console.log(`Anonymized prompt: "${prompt}" -> "${anonymizedText}"`);
-                return anonymizedText;
+    const getRateLimit = useCallback((provider: Provider): RateLimit => rateLimits[provider] ?? getDefaultRateLimit(provider), [rateLimits]);
+
+    const rateLimitMessage = useCallback(({ message, category }: NormalizedProviderError) => {
+        if (category !== 'rate_limit') return message;
+        return isManualKeySelection ? 'The manually selected API key is rate-limited or invalid.' : 'All API keys are rate-limited or invalid.';
+    }, [isManualKeySelection]);
+
+    const handleKeyAttempt = useCallback((key: string, error?: NormalizedProviderError) => {
+        setKeyHealth(prev => ({ ...prev, [key]: recordKeyAttempt(prev[key], error) }));
+    }, []);
+
+    // Client for the Gemini text calls made around image generation (translation, preprocessing, rewrites).
+    const getTextModelClient = useCallback((): TextModelClient | null => {
+        if (apiKeys.google.length === 0) return null;
+        return createScheduledTextClient(keySchedulerRef.current, apiKeys.google, getRateLimit('google'), handleKeyAttempt);
+    }, [apiKeys, getRateLimit, handleKeyAttempt]);
+
+    const recordSpend = useCallback((provider: Provider, key: string, model: ModelId, images: number, cost: number) => {
+        setSpendHistory(prev => {
+            const updated = addSpend(prev, provider, key, model, images, cost);
+            try {
+                saveSpendHistory(updated);
+            } catch (error) {
+                console.error("Could not save spend history:", error);
             }
-            return prompt;
-        } catch (error) {
-            console.error("Prompt anonymization failed:", error);
-            return prompt; // Fallback to original prompt on error
-        }
-    };
+            return updated;
+        });
+    }, []);
 
-    const generateSingleImage = useCallback(async (
+    // Shows which key served the last request, unless the user pinned one.
+    const markKeyUsed = useCallback((provider: Provider, keyIndex: number) => {
+        if (isManualKeySelection) return;
+        keyIndexRefs.current[provider] = keyIndex;
+        setActiveKeyIndices(prev => ({...prev, [provider]: keyIndex}));
+    }, [isManualKeySelection]);
+
+    // One attempt at a row with one model; `settings` are already resolved for the row.
+    const generateWithModel = useCallback(async (
         resultToGenerate: ImageResult,
-        attempt = 0
+        settings: BatchJobSettings,
+        signal?: AbortSignal
     ): Promise<ImageResult> => {
-        const currentProvider = MODELS[selectedModel].provider as Provider;
+        const adapter = getImageProvider(settings.model);
+        const currentProvider = adapter.provider as Provider;
         const keysForProvider = apiKeys[currentProvider];
         if (keysForProvider.length === 0) {
-            return { ...resultToGenerate, status: 'error', error: `No API keys provided for ${currentProvider}.` };
+            return { ...resultToGenerate, status: 'error', error: `No API keys provided for ${currentProvider}.`, errorCategory: 'auth' };
+        }
+
+        if (!adapter.capabilities.aspectRatios.includes(settings.aspectRatio)) {
+            return { ...resultToGenerate, status: 'error', error: `${adapter.name} does not support aspect ratio ${settings.aspectRatio}.`, errorCategory: 'invalid_request' };
         }
 
-        let promptForApi = resultToGenerate.prompt;
-        if (anonymizePrompts && apiKeys.google.length > 0) {
-            const googleAiInstance = googleInstances[googleKeyIndex.current];
-            if (googleAiInstance) {
-                promptForApi = await anonymizePrompt(promptForApi, googleAiInstance);
+        const { prompt: expandedPrompt, negativePrompt, missing } = composePrompt(resultToGenerate, settings);
+        if (missing.length > 0) {
+            return { ...resultToGenerate, status: 'error', error: `Template variables without a value in this row: ${missing.map(name => `{${name}}`).join(', ')}`, errorCategory: 'invalid_request' };
+        }
+        let baseResult: ImageResult = { ...resultToGenerate, expandedPrompt, translatedPrompt: undefined };
+
+        let promptForApi = expandedPrompt;
+        try {
+            const prepared = await prepareRowPrompt(getTextModelClient(), expandedPrompt, resultToGenerate, settings, signal);
+            promptForApi = prepared.prompt;
+            baseResult = { ...baseResult, translatedPrompt: prepared.translatedPrompt };
+        } catch (error: any) {
+            if (!signal?.aborted && !isAbortError(error)) {
+                return { ...baseResult, status: 'error', error: error.message, errorCategory: classifyError(error) };
             }
         }
+        if (signal?.aborted) {
+            return { ...baseResult, status: 'cancelled', error: undefined };
+        }
+        if (negativePrompt && !adapter.capabilities.supportsNegativePrompt) {
+            promptForApi = `${promptForApi}. Avoid: ${negativePrompt}`;
+        }
+        if (promptForApi.length > adapter.capabilities.maxPromptLength) {
+            return { ...baseResult, status: 'error', error: `Prompt is too long for ${adapter.name} (max ${adapter.capabilities.maxPromptLength} characters).`, errorCategory: 'invalid_request' };
+        }
+
+        const generation: GenerationMetadata = {
+            model: settings.model,
+            aspectRatio: settings.aspectRatio,
+            keyIndex: keyIndexRefs.current[currentProvider],
+            sentPrompt: promptForApi,
+            negativePrompt: adapter.capabilities.supportsNegativePrompt ? negativePrompt : undefined,
+            seed: adapter.capabilities.supportsSeed ? resultToGenerate.seed : undefined,
+            generatedAt: Date.now(),
+        };
 
-        const handleError = (error: any, provider: Provider): string => {
-            console.error(`[${provider}] Image generation error:`, error);
-            if (provider === 'google') {
-                if (typeof error === 'object' && error !== null) {
-                    if (error.error?.message) return error.error.message;
-                    if (typeof error.message === 'string') {
-                        try {
-                            const parsedError = JSON.parse(error.message);
-                            return parsedError.error?.message || error.message;
-                        } catch (e) { return error.message; }
+        let attempts = 0;
+        const rewrites: PromptRewrite[] = [];
+        try {
+            // Models that return fewer images per call than requested are called repeatedly.
+            let variants: ImageVariant[] = [];
+            while (variants.length < settings.variantsPerPrompt) {
+                const { outcome, attempts: requestAttempts } = await runWithRetries(settings.retryPolicy, () => runWithScheduledKey(keySchedulerRef.current, {
+                    keys: keysForProvider,
+                    limit: getRateLimit(currentProvider),
+                    signal,
+                    onlyIndex: isManualKeySelection ? activeKeyIndices[currentProvider] : undefined,
+                    normalizeError: adapter.normalizeError,
+                    onAttempt: handleKeyAttempt,
+                }, apiKey => adapter.generate({
+                    prompt: generation.sentPrompt,
+                    aspectRatio: settings.aspectRatio,
+                    apiKey,
+                    safetyLevel: settings.safetyLevel,
+                    count: Math.min(settings.variantsPerPrompt - variants.length, adapter.capabilities.maxImagesPerRequest),
+                    negativePrompt: generation.negativePrompt,
+                    seed: generation.seed,
+                    options: getProviderOptionValues(adapter, settings.providerOptions[settings.model]),
+                    signal,
+                })), signal);
+                attempts += requestAttempts;
+                generation.keyIndex = outcome.keyIndex;
+                if ('error' in outcome) {
+                    const rewriteClient = outcome.error.category === 'safety_block' && rewrites.length < settings.safetyRewriteAttempts ? getTextModelClient() : null;
+                    const rewritten = rewriteClient
+                        ? await rewriteBlockedPrompt(rewriteClient, generation.sentPrompt, outcome.error.message, rewrites, signal)
+                        : null;
+                    if (signal?.aborted) {
+                        return { ...baseResult, status: 'cancelled', error: undefined, errorCategory: undefined };
                     }
+                    if (!rewritten || rewritten.length > adapter.capabilities.maxPromptLength) {
+                        return { ...baseResult, generation, status: 'error', error: rateLimitMessage(outcome.error), errorCategory: outcome.error.category, attempts, rewrites };
+                    }
+                    // Images from the blocked prompt would not match the recorded one, so start over.
+                    rewrites.push({ blockedPrompt: generation.sentPrompt, reason: outcome.error.message, rewrittenPrompt: rewritten });
+                    generation.sentPrompt = rewritten;
+                    variants = [];
+                    continue;
                 }
-            } else if (provider === 'openai') {
-                 if (error?.error?.message) {
-                    return `OpenAI Error: ${error.error.message}`;
-                }
+                const callCost = (getImagePrice(settings.model, settings.aspectRatio, settings.providerOptions[settings.model]) ?? 0) * outcome.value.length;
+                generation.cost = (generation.cost ?? 0) + callCost;
+                recordSpend(currentProvider, keysForProvider[outcome.keyIndex], settings.model, outcome.value.length, callCost);
+                variants.push(...outcome.value);
             }
-            return error.message || 'An unknown error occurred';
-        };
+            
+            markKeyUsed(currentProvider, generation.keyIndex);
+            return { ...baseResult, generation: { ...generation, generatedAt: Date.now() }, variants, chosenVariant: 0, status: 'success', error: undefined, errorCategory: undefined, attempts, rewrites };
 
-        const keyIndexRef = currentProvider === 'google' ? googleKeyIndex : openaiKeyIndex;
-        let keyIndexToTry: number;
-        
-        if (isManualKeySelection) {
-            if (attempt > 0) {
-                 return { ...resultToGenerate, status: 'error', error: 'The manually selected API key is rate-limited or invalid.' };
+        } catch (error: any) {
+            if (signal?.aborted || isAbortError(error)) {
+                return { ...baseResult, status: 'cancelled', error: undefined, errorCategory: undefined };
             }
-            keyIndexToTry = activeKeyIndices[currentProvider];
-        } else {
-            if (attempt >= keysForProvider.length) {
-                return { ...resultToGenerate, status: 'error', error: 'All API keys are rate-limited or invalid.' };
+            const { message, category } = adapter.normalizeError(error);
+            return { ...baseResult, generation, status: 'error', error: message, errorCategory: category, attempts, rewrites };
+        }
+    }, [apiKeys, isManualKeySelection, activeKeyIndices, getTextModelClient, getRateLimit, rateLimitMessage, handleKeyAttempt, recordSpend, markKeyUsed]);
+
+    /**
+     * Generates a row with its model and, when that fails because the provider
+     * cannot serve it right now, with each fallback model in turn. Fallback
+     * models get the closest aspect ratio they support.
+     */
+    const generateSingleImage = useCallback(async (
+        resultToGenerate: ImageResult,
+        jobSettings: BatchJobSettings,
+        signal?: AbortSignal
+    ): Promise<ImageResult> => {
+        const settings = resolveRowSettings(resultToGenerate, jobSettings);
+        const chain = [settings.model, ...jobSettings.fallbackModels.filter(model => model !== settings.model)];
+        const failures: string[] = [];
+        for (const [index, model] of chain.entries()) {
+            const adapter = getImageProvider(model);
+            const aspectRatio = index === 0 ? settings.aspectRatio : mapAspectRatio(adapter, settings.aspectRatio);
+            const outcome = await generateWithModel(resultToGenerate, { ...settings, model, aspectRatio }, signal);
+            const canFallBack = outcome.status === 'error' && FALLBACK_CATEGORIES.includes(outcome.errorCategory) && index < chain.length - 1;
+            if (!canFallBack) {
+                if (index === 0) return outcome;
+                return {
+                    ...outcome,
+                    generation: outcome.generation && { ...outcome.generation, requestedModel: settings.model },
+                    error: outcome.error && `${adapter.name}: ${outcome.error} (after ${failures.join('; ')})`,
+                };
             }
-            keyIndexToTry = (keyIndexRef.current + attempt) % keysForProvider.length;
+            console.warn(`${adapter.name} failed for row ${resultToGenerate.id}, falling back to the next model: ${outcome.error}`);
+            failures.push(`${adapter.name}: ${outcome.error}`);
         }
+        throw new Error('The model chain is never empty.');
+    }, [generateWithModel]);
 
-        try {
-            let imageUrl: string;
-            if (currentProvider === 'google') {
-                const ai = googleInstances[keyIndexToTry];
-                if (!ai) throw new Error("Google AI instance not found");
+    // Sends the chosen image to the model's edit endpoint; the image it replaces moves to `history`.
+    const editSingleImage = async (result: ImageResult, options: ImageEditOptions): Promise<ImageResult> => {
+        const adapter = getImageProvider(options.model);
+        const image = getChosenVariant(result);
+        if (!adapter.edit || !image) {
+            throw new Error(`${adapter.name} cannot edit this image.`);
+        }
+        const currentProvider = adapter.provider as Provider;
+        const keysForProvider = apiKeys[currentProvider];
+        if (keysForProvider.length === 0) {
+            throw new Error(`No API keys provided for ${currentProvider}.`);
+        }
+        if (options.instruction.length > adapter.capabilities.maxPromptLength) {
+            throw new Error(`Instruction is too long for ${adapter.name} (max ${adapter.capabilities.maxPromptLength} characters).`);
+        }
 
-                const safetySettings = safetyLevel === 'default' ? undefined : SAFETY_SETTINGS_CONFIG[safetyLevel];
-                
-                if (selectedModel === 'google-imagen-4') {
-                    const response = await ai.models.generateImages({
-                        model: 'imagen-4.0-generate-001',
-                        prompt: promptForApi,
-                        config: {
-                          numberOfImages: 1,
-                          outputMimeType: 'image/jpeg',
-                          aspectRatio: aspectRatio,
-                        },
-                        safetySettings,
-                    });
-                    
-                    const base64ImageBytes: string | undefined = response.generatedImages?.[0]?.image?.imageBytes;
-                    
-                    if (!base64ImageBytes) {
-                        let errorMessage = 'No image was returned from the API. This is often caused by safety filters. Try rewriting the prompt.';
-                        throw new Error(errorMessage);
-                    }
-                    
-                    imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-                } else if (selectedModel === 'google-gemini-flash-image') {
-                    const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: {
-                            parts: [{ text: promptForApi }],
-                        },
-                        config: {
-                            responseModalities: [Modality.IMAGE],
-                        },
-                        safetySettings,
-                    });
-        
-                    const part = response.candidates?.[0]?.content?.parts?.find(p => !!p.inlineData);
-                    const base64ImageBytes = part?.inlineData?.data;
-        
-                    if (!base64ImageBytes) {
-                        let errorMessage = 'No image was returned from the API. This is often caused by safety filters. Try rewriting the prompt.';
-                        throw new Error(errorMessage);
-                    }
-                    imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                } else {
-                     throw new Error(`Unsupported Google model: ${selectedModel}`);
+        const { outcome, attempts } = await runWithRetries(retryPolicy, () => runWithScheduledKey(keySchedulerRef.current, {
+            keys: keysForProvider,
+            limit: getRateLimit(currentProvider),
+            onlyIndex: isManualKeySelection ? activeKeyIndices[currentProvider] : undefined,
+            normalizeError: adapter.normalizeError,
+            onAttempt: handleKeyAttempt,
+        }, apiKey => adapter.edit!({
+            instruction: options.instruction,
+            image,
+            referenceImage: options.referenceImage,
+            mask: options.mask,
+            apiKey,
+            safetyLevel,
+            count: 1,
+            options: getProviderOptionValues(adapter, providerOptions[options.model]),
+        })));
+        if ('error' in outcome) throw new Error(rateLimitMessage(outcome.error));
+
+        markKeyUsed(currentProvider, outcome.keyIndex);
+        const aspectRatio = result.generation?.aspectRatio ?? resolveRowSettings(result, batchSettings).aspectRatio;
+        const cost = (getImagePrice(options.model, aspectRatio, providerOptions[options.model]) ?? 0) * outcome.value.length;
+        recordSpend(currentProvider, keysForProvider[outcome.keyIndex], options.model, outcome.value.length, cost);
+        return {
+            ...archiveCurrentVersion(result),
+            generation: {
+                model: options.model,
+                aspectRatio,
+                keyIndex: outcome.keyIndex,
+                sentPrompt: options.instruction,
+                editInstruction: options.instruction,
+                cost,
+                generatedAt: Date.now(),
+            },
+            variants: outcome.value,
+            chosenVariant: 0,
+            status: 'success',
+            error: undefined,
+            errorCategory: undefined,
+            attempts,
+        };
+    };
+
+    // Applies a result update to the grid and, when a job is active, to its saved copy.
+    const updateResult = useCallback((updated: ImageResult) => {
+        setResults(prev => prev.map(r => r.id === updated.id ? updated : r));
+        const jobId = currentJobIdRef.current;
+        if (jobId) {
+            saveJobResult(jobId, updated).catch(error => console.error("Could not save job progress:", error));
+        }
+    }, []);
+
+    const waitWhilePaused = async (signal: AbortSignal) => {
+        while (isPausedRef.current && !signal.aborted) {
+            await sleep(250, signal);
+        }
+    };
+
+    // Pauses like the Pause button, but says why; Resume re-checks the cap.
+    const pauseForBudget = () => {
+        handlePause();
+        setIsBudgetPaused(true);
+    };
+
+    /**
+     * `alreadySpent` is what the batch cost before this run; together with the
+     * estimates of in-flight rows it is checked against the budget before each
+     * row is started.
+     */
+    const runQueue = async (items: ImageResult[], settings: BatchJobSettings, alreadySpent = 0) => {
+        const controller = new AbortController();
+        const { signal } = controller;
+        abortControllerRef.current = controller;
+        isPausedRef.current = false;
+        setIsPaused(false);
+        setIsBudgetPaused(false);
+        setIsGenerating(true);
+        setProgress({ current: 0, total: items.length });
+
+        const queue = [...items];
+        queueRef.current = queue;
+        let committedSpend = alreadySpent;
+        const workers = Array(settings.concurrencyLimit).fill(null).map(async () => {
+            while (queue.length > 0) {
+                await waitWhilePaused(signal);
+                if (signal.aborted) break;
+                const item = queue.shift();
+                if (!item) continue;
+
+                const estimate = estimateBatchCost([item], settings).cost;
+                if (budgetLimitRef.current > 0 && committedSpend + estimate > budgetLimitRef.current) {
+                    queue.unshift(item);
+                    pauseForBudget();
+                    continue;
                 }
-            } else { // OpenAI
-                const apiKey = keysForProvider[keyIndexToTry];
-                const model = selectedModel === 'openai-dalle3' ? 'dall-e-3' : 'dall-e-2';
-                const size = model === 'dall-e-3' 
-                    ? { '1:1': '1024x1024', '16:9': '1792x1024', '9:16': '1024x1792' }[aspectRatio]
-                    : '1024x1024';
-
-                const response = await fetch('https://api.openai.com/v1/images/generations', {
-                    method: 'POST',
-                    headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        model,
-                        prompt: promptForApi,
-                        n: 1,
-                        size,
-                        response_format: 'b64_json',
-                    }),
-                });
-
-                const data = await response.json();
-                if (!response.ok) throw data;
+                committedSpend += estimate;
                 
-                const b64Json = data.data?.[0]?.b64_json;
-                if (!b64Json) {
-                    throw new Error('Generation failed: No image data returned from OpenAI API.');
+                updateResult({ ...item, status: 'generating', error: undefined });
+                const updatedResult = await generateSingleImage(item, settings, signal);
+                updateResult(updatedResult);
+                committedSpend += (updatedResult.generation?.cost ?? 0) - estimate;
+                if (updatedResult.status !== 'cancelled') {
+                    setProgress(prev => ({ ...prev, current: prev.current + 1 }));
                 }
-                imageUrl = `data:image/png;base64,${b64Json}`;
             }
-            
-            if (!isManualKeySelection) {
-                keyIndexRef.current = keyIndexToTry;
-                setActiveKeyIndices(prev => ({...prev, [currentProvider]: keyIndexToTry}));
-            }
-            return { ...resultToGenerate, imageUrl, status: 'success', error: undefined };
+        });
+        await Promise.all(workers);
+        setIsBudgetPaused(false);
 
+        abortControllerRef.current = null;
+        queueRef.current = [];
+        isPausedRef.current = false;
+        setIsPaused(false);
+        setIsGenerating(false);
+        refreshSavedJobs();
+    };
+
+    const handlePause = () => {
+        isPausedRef.current = true;
+        setIsPaused(true);
+        const queuedIds = new Set(queueRef.current.map(r => r.id));
+        setResults(prev => prev.map(r => queuedIds.has(r.id) && r.status === 'pending' ? { ...r, status: 'paused' } : r));
+    };
+
+    const handleResume = () => {
+        setIsBudgetPaused(false);
+        isPausedRef.current = false;
+        setIsPaused(false);
+        setResults(prev => prev.map(r => r.status === 'paused' ? { ...r, status: 'pending' } : r));
+    };
+
+    const handleCancel = () => {
+        // Drain the queue first so no worker picks up another row once the abort lands.
+        const remaining = queueRef.current.splice(0);
+        abortControllerRef.current?.abort();
+
+        const remainingIds = new Set(remaining.map(r => r.id));
+        setResults(prev => prev.map(r => remainingIds.has(r.id) ? { ...r, status: 'cancelled', error: undefined } : r));
+        const jobId = currentJobIdRef.current;
+        if (jobId && remaining.length > 0) {
+            saveJobResults(jobId, remaining.map(r => ({ ...r, status: 'cancelled', error: undefined })))
+                .catch(error => console.error("Could not save job progress:", error));
+        }
+    };
+
+    // Settings with 'auto' replaced by the detected language, or null when the user backs out after a failed detection.
+    const resolveSourceLanguage = async (rows: CsvRow[], settings: BatchJobSettings): Promise<BatchJobSettings | null> => {
+        const client = getTextModelClient();
+        if (settings.sourceLanguage !== AUTO_DETECT_LANGUAGE || !client) return settings;
+        try {
+            const language = await detectPromptLanguage(client, rows.map(r => r.prompt));
+            setDetectedLanguage(language);
+            return { ...settings, sourceLanguage: language };
         } catch (error: any) {
-            const isRateLimitError = (
-                (error?.error?.code === 429 || error?.error?.code === 'rate_limit_exceeded') ||
-                (error?.error?.status === 'RESOURCE_EXHAUSTED') ||
-                JSON.stringify(error).includes('quota exceeded') ||
-                JSON.stringify(error).includes('billed users')
-            );
-            
-            if (isRateLimitError && !isManualKeySelection) {
-                 console.warn(`API key at index ${keyIndexToTry} for ${currentProvider} failed. Trying next key...`);
-                 return generateSingleImage(resultToGenerate, attempt + 1);
-            }
-            
-            const errorMessage = handleError(error, currentProvider);
-            return { ...resultToGenerate, status: 'error', error: errorMessage };
+            console.error("Could not detect the prompt language:", error);
+            return window.confirm(`Could not detect the prompt language (${error?.message ?? 'unknown error'}). Continue without translating?`)
+                ? { ...settings, sourceLanguage: ENGLISH }
+                : null;
+        }
+    };
+
+    // The rows inside the start/end ID range, or null (after telling the user) when the range is unusable.
+    const getPromptsInRange = (): CsvRow[] | null => {
+        const selection = selectRowsInRange(prompts, startId, endId);
+        if ('error' in selection) {
+            alert(selection.error);
+            return null;
         }
-    }, [selectedModel, apiKeys, aspectRatio, isManualKeySelection, activeKeyIndices, googleInstances, safetyLevel, anonymizePrompts]);
+        return selection.rows;
+    };
+
+    const handlePreviewPrompts = async () => {
+        if (prompts.length === 0) return alert("Please upload a valid CSV file or paste data first.");
+        const rows = getPromptsInRange();
+        if (!rows) return;
+        const settings = await resolveSourceLanguage(rows, batchSettings);
+        if (!settings) return;
+        setPromptPreview({ rows, settings, client: getTextModelClient() });
+    };
+
+    const handleCompareModels = async () => {
+        if (prompts.length === 0) return alert("Please upload a valid CSV file or paste data first.");
+        const rows = getPromptsInRange();
+        if (!rows) return;
+        const settings = await resolveSourceLanguage(rows, batchSettings);
+        if (!settings) return;
+        setModelComparison({ rows, settings });
+    };
 
     const handleStartGeneration = async () => {
         if (prompts.length === 0) return alert("Please upload a valid CSV file or paste data first.");
         if (activeKeys.length === 0) return alert(`Please add at least one API key for ${activeProvider}.`);
         
-        let promptsToGenerate = [...prompts];
-        const startNum = parseInt(startId, 10);
-        const endNum = parseInt(endId, 10);
+        const promptsToGenerate = getPromptsInRange();
+        if (!promptsToGenerate) return;
+        const settings = await resolveSourceLanguage(promptsToGenerate, batchSettings);
+        if (!settings) return;
 
-        if (startId.trim() !== '' || endId.trim() !== '') {
-            if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) {
-                return alert("Please provide a valid start and end ID for the generation range.");
-            }
-            promptsToGenerate = prompts.filter(p => {
-                const pNum = parseInt(p.id, 10);
-                return pNum >= startNum && pNum <= endNum;
-            });
+        if(isManualKeySelection) {
+            keyIndexRefs.current[activeProvider] = activeKeyIndex;
+        }
 
-            if (promptsToGenerate.length === 0) {
-                 return alert(`No prompts found in the specified range: ${startNum} - ${endNum}.`);
-            }
+        const initialResults: ImageResult[] = promptsToGenerate.map(p => ({ ...p, variants: [], chosenVariant: 0, status: 'pending' }));
+        setResults(initialResults);
+        setSelectedIds(new Set());
+
+        const now = Date.now();
+        const job: BatchJob = {
+            id: createJobId(),
+            name: fileName || `Pasted text (${prompts.length} rows)`,
+            createdAt: now,
+            updatedAt: now,
+            settings,
+            rows: prompts,
+            results: initialResults,
+        };
+        try {
+            await saveJob(job);
+            selectJob(job.id);
+        } catch (error) {
+            console.error("Could not save job, progress will not be resumable:", error);
+            selectJob(null);
         }
 
-        setIsGenerating(true);
-        setProgress({ current: 0, total: promptsToGenerate.length });
-        
-        if(isManualKeySelection) {
-            if (activeProvider === 'google') googleKeyIndex.current = activeKeyIndex;
-            else openaiKeyIndex.current = activeKeyIndex;
+        await runQueue(initialResults, settings);
+    };
+
+    const handleResumeJob = async (jobId: string) => {
+        let job: BatchJob | null;
+        try {
+            job = await loadJob(jobId);
+        } catch (error) {
+            console.error("Could not load job:", error);
+            return alert("Error: Could not load the saved job.");
         }
+        if (!job) return alert("This job no longer exists.");
 
-        const initialResults: ImageResult[] = promptsToGenerate.map(p => ({ ...p, imageUrl: null, status: 'pending' }));
-        setResults(initialResults);
+        // Jobs saved before a setting existed pick it up from the current UI.
+        const settings: BatchJobSettings = migrateTranslationStep({ ...batchSettings, ...job.settings });
+        setSelectedModel(settings.model);
+        setAspectRatio(settings.aspectRatio);
+        setSafetyLevel(settings.safetyLevel);
+        setPreprocessSteps(settings.preprocessSteps);
+        setSourceLanguage(settings.sourceLanguage);
+        setConcurrencyLimit(settings.concurrencyLimit);
+        setVariantsPerPrompt(settings.variantsPerPrompt);
+        setPromptTemplate(settings.promptTemplate);
+        setRetryPolicy(settings.retryPolicy);
+        setSafetyRewriteAttempts(settings.safetyRewriteAttempts);
+        handleBudgetLimitChange(settings.budgetLimit);
+        setFallbackModels(settings.fallbackModels);
+        setProviderOptions(settings.providerOptions);
+        if (settings.stylePreset && !stylePresets.some(p => p.id === settings.stylePreset!.id)) {
+            handleSaveStylePreset(settings.stylePreset);
+        }
+        setSelectedStylePresetId(settings.stylePreset?.id ?? '');
+        setPrompts(job.rows);
+        setFileName(job.name);
+        setTextInput('');
+        setCsvData([]);
+        setColumnMapping([]);
+        setRejectedRows([]);
+        setStartId(job.results[0]?.id ?? '');
+        setEndId(job.results[job.results.length - 1]?.id ?? '');
+        selectJob(job.id);
 
-        const queue = [...initialResults];
-        const processQueue = async () => {
-            const workers = Array(concurrencyLimit).fill(null).map(async () => {
-                while (queue.length > 0) {
-                    const item = queue.shift();
-                    if (!item) continue;
-                    
-                    setResults(prev => prev.map(r => r.id === item.id ? { ...r, status: 'generating' } : r));
-                    const updatedResult = await generateSingleImage(item);
-                    setResults(prev => prev.map(r => r.id === item.id ? updatedResult : r));
-                    setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+        // Rows interrupted mid-generation are treated as pending again.
+        const restoredResults: ImageResult[] = job.results.map(r =>
+            RESUMABLE_STATUSES.includes(r.status) ? { ...r, status: 'pending', error: undefined } : r
+        );
+        setResults(restoredResults);
+        setSelectedIds(new Set());
 
-                    if (queue.length > 0 && requestDelay > 0) {
-                        await new Promise(resolve => setTimeout(resolve, requestDelay));
-                    }
-                }
-            });
-            await Promise.all(workers);
-        };
+        const resumable = restoredResults.filter(r => r.status === 'pending');
+        if (resumable.length === 0) return;
+        const jobProvider = getImageProvider(settings.model).provider as Provider;
+        if (apiKeys[jobProvider].length === 0) {
+            return alert(`Please add at least one API key for ${jobProvider} to resume this job.`);
+        }
+        if (isManualKeySelection) {
+            keyIndexRefs.current[jobProvider] = activeKeyIndices[jobProvider];
+        }
+        await runQueue(resumable, settings, getBatchSpend(restoredResults));
+    };
 
-        await processQueue();
-        setIsGenerating(false);
+    const handleDeleteJob = async (jobId: string) => {
+        if (!window.confirm("Delete this saved job and its images?")) return;
+        try {
+            await deleteJob(jobId);
+            if (currentJobIdRef.current === jobId) selectJob(null);
+        } catch (error) {
+            console.error("Could not delete job:", error);
+        }
+        refreshSavedJobs();
     };
 
     const handleRetry = async (resultId: string) => {
@@ -411,57 +731,241 @@ You: "Jordan and Casey on a date at a pizzeria."`;
         if (resultIndex === -1) return;
         
         if (isManualKeySelection) {
-            const keyIndexRef = activeProvider === 'google' ? googleKeyIndex : openaiKeyIndex;
-            keyIndexRef.current = activeKeyIndex;
+            keyIndexRefs.current[activeProvider] = activeKeyIndex;
         }
 
-        setResults(prev => prev.map((r, i) => i === resultIndex ? { ...r, status: 'generating', error: undefined } : r));
-        const updatedResult = await generateSingleImage(results[resultIndex]);
-        setResults(prev => prev.map((r, i) => i === resultIndex ? updatedResult : r));
+        const resultToRetry = archiveCurrentVersion(results[resultIndex]);
+        updateResult({ ...resultToRetry, status: 'generating', error: undefined });
+        const updatedResult = await generateSingleImage(resultToRetry, batchSettings);
+        updateResult(updatedResult);
     };
     
-    const handleEditAndSave = async (resultId: string, newPrompt: string) => {
+    const handleEditAndSave = async (resultId: string, newPrompt: string, translationOverride?: string) => {
         const resultIndex = results.findIndex(r => r.id === resultId);
         if (resultIndex === -1) return;
         
         if (isManualKeySelection) {
-             const keyIndexRef = activeProvider === 'google' ? googleKeyIndex : openaiKeyIndex;
-            keyIndexRef.current = activeKeyIndex;
+            keyIndexRefs.current[activeProvider] = activeKeyIndex;
         }
         
-        const resultToUpdate = { ...results[resultIndex], prompt: newPrompt };
-        setResults(prev => prev.map((r, i) => i === resultIndex ? { ...r, prompt: newPrompt, status: 'generating', error: undefined } : r));
+        const resultToUpdate = { ...archiveCurrentVersion(results[resultIndex]), prompt: newPrompt, translationOverride };
+        updateResult({ ...resultToUpdate, status: 'generating', error: undefined });
         setEditingResult(null);
 
-        const updatedResult = await generateSingleImage(resultToUpdate);
-        setResults(prev => prev.map((r, i) => i === resultIndex ? updatedResult : r));
+        const updatedResult = await generateSingleImage(resultToUpdate, batchSettings);
+        updateResult(updatedResult);
     };
 
-    const handleDownloadAll = async () => {
-        const zip = new JSZip();
-        const successfulResults = results.filter(r => r.status === 'success' && r.imageUrl);
-        if (successfulResults.length === 0) return alert("No successful images to download.");
-        
-        successfulResults.forEach(result => {
-            const imgData = result.imageUrl!.split(',')[1];
-            zip.file(`${result.id}.png`, imgData, { base64: true });
-        });
+    const handleEditImage = async (resultId: string, options: ImageEditOptions) => {
+        const original = results.find(r => r.id === resultId);
+        if (!original) return;
+
+        if (isManualKeySelection) {
+            keyIndexRefs.current[activeProvider] = activeKeyIndex;
+        }
 
-        const zipBlob = await zip.generateAsync({ type: 'blob' });
+        setEditingResult(null);
+        updateResult({ ...original, status: 'generating', error: undefined });
+        try {
+            updateResult(await editSingleImage(original, options));
+        } catch (error: any) {
+            console.error("Image edit failed:", error);
+            updateResult(original);
+            alert(`Error: Could not edit image ${resultId}. ${error?.message ?? ''}`);
+        }
+    };
+
+    const downloadArchive = async (items: ImageResult[], zipName: string) => {
+        if (!items.some(hasImage)) return alert("No successful images to download.");
+
+        setIsExporting(true);
+        let archive: ResultsArchive;
+        try {
+            archive = await buildResultsArchive(items, exportOptions);
+        } catch (error: any) {
+            console.error("Could not build the ZIP archive:", error);
+            return alert(`Error: Could not export images. ${error?.message ?? ''}`);
+        } finally {
+            setIsExporting(false);
+        }
         const link = document.createElement('a');
-        link.href = URL.createObjectURL(zipBlob);
-        link.download = 'ai-generated-images.zip';
+        link.href = URL.createObjectURL(archive.zip);
+        link.download = zipName;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
+        if (archive.warnings.length > 0) {
+            alert(`Some export profiles were left out of the ZIP:\n${archive.warnings.join('\n')}`);
+        }
+    };
+
+    const handleDownloadAll = () => downloadArchive(results, 'ai-generated-images.zip');
+
+    const selectedResults = results.filter(r => selectedIds.has(r.id));
+    const batchSpend = getBatchSpend(results);
+    const failedResults = results.filter(r => r.status === 'error');
+
+    const handleToggleSelect = (resultId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (!next.delete(resultId)) next.add(resultId);
+            return next;
+        });
+    };
+
+    // Bulk regeneration goes through the same queue as a full run, so pause, cancel and progress apply.
+    const regenerateResults = async (items: ImageResult[], settings: BatchJobSettings) => {
+        if (items.length === 0) return;
+        if (isManualKeySelection) {
+            keyIndexRefs.current[activeProvider] = activeKeyIndex;
+        }
+
+        const queued: ImageResult[] = items.map(r => ({ ...archiveCurrentVersion(r), status: 'pending', error: undefined, errorCategory: undefined }));
+        const queuedById = new Map(queued.map(r => [r.id, r]));
+        setResults(prev => prev.map(r => queuedById.get(r.id) ?? r));
+        const jobId = currentJobIdRef.current;
+        if (jobId) {
+            saveJobResults(jobId, queued).catch(error => console.error("Could not save job progress:", error));
+        }
+        await runQueue(queued, settings, getBatchSpend(results));
+    };
+
+    const handleRegenerateWithModel = (model: ModelId) => {
+        const provider = getImageProvider(model).provider as Provider;
+        if (apiKeys[provider].length === 0) return alert(`Please add at least one API key for ${provider}.`);
+        // The model becomes a row override so it sticks when the job is resumed, together with the
+        // closest aspect ratio it supports.
+        const adapter = getImageProvider(model);
+        regenerateResults(selectedResults.map(r => ({
+            ...r,
+            model,
+            aspectRatio: mapAspectRatio(adapter, resolveRowSettings(r, batchSettings).aspectRatio),
+        })), batchSettings);
+    };
+
+    const handleFindReplace = (find: string, replacement: string) => {
+        const changed = selectedResults.map(r => replaceInPrompt(r, find, replacement)).filter((r): r is ImageResult => r !== null);
+        if (changed.length === 0) return alert(`None of the selected prompts contain "${find}".`);
+        regenerateResults(changed, batchSettings);
+    };
+
+    const handleDeleteSelected = async () => {
+        if (!window.confirm(`Delete ${selectedIds.size} result(s) and their images?`)) return;
+        const removedIds = [...selectedIds];
+        setResults(prev => prev.filter(r => !selectedIds.has(r.id)));
+        setSelectedIds(new Set());
+        const jobId = currentJobIdRef.current;
+        if (jobId) {
+            try {
+                await deleteJobResults(jobId, removedIds);
+            } catch (error) {
+                console.error("Could not delete results from the job:", error);
+            }
+            refreshSavedJobs();
+        }
     };
     
+    const handleSaveStylePreset = (preset: StylePreset) => {
+        setStylePresets(prev => {
+            const updated = [...prev, preset];
+            try {
+                saveStylePresets(updated);
+            } catch (error) {
+                console.error("Could not save style presets:", error);
+            }
+            return updated;
+        });
+    };
+
+    const handleDeleteStylePreset = (presetId: string) => {
+        setStylePresets(prev => {
+            const updated = prev.filter(p => p.id !== presetId);
+            try {
+                saveStylePresets(updated);
+            } catch (error) {
+                console.error("Could not save style presets:", error);
+            }
+            return updated;
+        });
+    };
+
+    const handleChooseVariant = (resultId: string, variantIndex: number) => {
+        const result = results.find(r => r.id === resultId);
+        if (!result) return;
+        updateResult({ ...result, chosenVariant: variantIndex });
+    };
+
+    const handleRevertVersion = (resultId: string, versionIndex: number) => {
+        const result = results.find(r => r.id === resultId);
+        if (!result || result.status === 'generating') return;
+        updateResult(revertToVersion(result, versionIndex));
+    };
+
+    const handleResetSpendHistory = () => {
+        if (!window.confirm("Clear the whole spend history?")) return;
+        setSpendHistory([]);
+        try {
+            saveSpendHistory([]);
+        } catch (error) {
+            console.error("Could not save spend history:", error);
+        }
+    };
+
+    const handleBudgetLimitChange = (limit: number) => {
+        budgetLimitRef.current = limit;
+        setBudgetLimit(limit);
+    };
+
+    const handlePreprocessStepsChange = (steps: PreprocessStep[]) => {
+        setPreprocessSteps(steps);
+        try {
+            savePreprocessSteps(steps);
+        } catch (error) {
+            console.error("Could not save prompt preprocessing steps:", error);
+        }
+    };
+
+    const handleRateLimitChange = (limit: RateLimit) => {
+        setRateLimits(prev => {
+            const updated = { ...prev, [activeProvider]: limit };
+            try {
+                saveRateLimits(updated);
+            } catch (error) {
+                console.error("Could not save rate limits:", error);
+            }
+            return updated;
+        });
+    };
+
+    // Validates a key against the selected model without generating anything.
+    const handleTestKey = async (key: string) => {
+        try {
+            await activeAdapter.validateKey(key);
+            keySchedulerRef.current.setDisabled(key, false);
+            setKeyHealth(prev => ({ ...prev, [key]: recordKeyTest(prev[key]) }));
+        } catch (error: any) {
+            const normalized = activeAdapter.normalizeError(error);
+            if (normalized.category === 'auth') keySchedulerRef.current.setDisabled(key, true);
+            setKeyHealth(prev => ({ ...prev, [key]: recordKeyTest(prev[key], normalized) }));
+        }
+    };
+
+    const handleSetKeyEnabled = (key: string, enabled: boolean) => {
+        keySchedulerRef.current.setDisabled(key, !enabled);
+        setKeyHealth(prev => ({ ...prev, [key]: { ...(prev[key] ?? EMPTY_KEY_HEALTH), disabledReason: enabled ? undefined : 'Disabled manually' } }));
+    };
+
+    const handleProviderOptionChange = (optionId: string, value: string) => {
+        setProviderOptions(prev => ({ ...prev, [selectedModel]: { ...activeOptionValues, [optionId]: value } }));
+    };
+
     const handleSelectKey = (index: number) => {
         setActiveKeyIndices(prev => ({...prev, [activeProvider]: index}));
         setIsManualKeySelection(true);
     };
 
     const successfulGenerations = results.filter(r => r.status === 'success').length;
+    const historyResult = historyResultId ? results.find(r => r.id === historyResultId) ?? null : null;
 
     return (
         <div className="container mx-auto p-4 md:p-8">
@@ -475,10 +979,25 @@ You: "Jordan and Casey on a date at a pizzeria."`;
                     >
                         <KeyIcon className="w-4 h-4" />
                         <div className="text-left">
-                            <span className="font-mono text-xs">{maskKey(activeKeys[activeKeyIndex]) || 'No Key Selected'}</span>
+                            <span className="font-mono text-xs">{activeKeys[activeKeyIndex] ? getKeyLabel(activeProvider, activeKeys[activeKeyIndex]) : 'No Key Selected'}</span>
                             <div className={`text-xs ${isManualKeySelection ? 'text-indigo-400' : 'text-gray-400'}`}>{isManualKeySelection ? 'Manual Mode' : 'Auto-Rotation'}</div>
                         </div>
                     </button>
+                    <button
+                        onClick={() => setIsSpendModalOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+                        title="Spend history per provider and key"
+                    >
+                        Spend {formatUsd(spendHistory.reduce((total, entry) => total + entry.cost, 0))}
+                    </button>
+                    <button
+                        onClick={onOpenVault}
+                        className={`flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors ${isVaultEnabled ? 'bg-green-900/50 text-green-300 hover:bg-green-900' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        title={isVaultEnabled ? 'API keys are encrypted with your passphrase' : 'API keys are stored unencrypted; click to set a passphrase'}
+                    >
+                        <ShieldIcon className="w-4 h-4" />
+                        {isVaultEnabled ? 'Vault On' : 'Vault Off'}
+                    </button>
                     <button 
                       onClick={onClearAllKeys} 
                       className="px-4 py-2 text-sm bg-red-800 hover:bg-red-700 rounded-lg transition-colors"
@@ -496,22 +1015,35 @@ You: "Jordan and Casey on a date at a pizzeria."`;
                             <h3 className="font-semibold text-lg text-white">1. Select Model</h3>
                              <select
                                 value={selectedModel}
-                                onChange={e => setSelectedModel(e.target.value as keyof typeof MODELS)}
+                                onChange={e => setSelectedModel(e.target.value as ModelId)}
                                 disabled={isGenerating}
                                 className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
                             >
-                                {Object.entries(MODELS).map(([key, { name }]) => (
-                                    <option key={key} value={key}>{name}</option>
+                                {Object.values(MODELS).map(({ id, name }) => (
+                                    <option key={id} value={id}>{name}</option>
                                 ))}
                             </select>
+                            {activeAdapter.capabilities.options?.map(option => (
+                                <label key={option.id} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                                    {option.label}
+                                    <select
+                                        value={activeOptionValues[option.id]}
+                                        onChange={e => handleProviderOptionChange(option.id, e.target.value)}
+                                        disabled={isGenerating}
+                                        className="w-1/2 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                                    >
+                                        {option.choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+                                    </select>
+                                </label>
+                            ))}
                         </div>
                         <div className="flex flex-col gap-3">
                             <h3 className="font-semibold text-lg text-white">2. Aspect Ratio</h3>
                             <div className="flex gap-2">
                                 {(Object.values(AspectRatio) as Array<AspectRatio>).map(ratio => {
-                                    const isUnsupportedModel = selectedModel === 'openai-dalle2' || selectedModel === 'google-gemini-flash-image';
-                                    const isUnsupported = isUnsupportedModel && ratio !== '1:1';
-                                    const title = isUnsupported ? 'This model only supports 1:1 ratio' : '';
+                                    const supportedRatios = activeAdapter.capabilities.aspectRatios;
+                                    const isUnsupported = !supportedRatios.includes(ratio);
+                                    const title = isUnsupported ? `This model only supports ${supportedRatios.join(', ')} ratio` : '';
                                     return (
                                         <button
                                             key={ratio}
@@ -569,6 +1101,17 @@ You: "Jordan and Casey on a date at a pizzeria."`;
                             )}
                         </div>
                         
+                        <CsvImportPreview
+                            data={csvData}
+                            hasHeader={hasHeader}
+                            mapping={columnMapping}
+                            acceptedCount={prompts.length}
+                            rejected={rejectedRows}
+                            disabled={isGenerating}
+                            onHeaderChange={handleHeaderChange}
+                            onMappingChange={handleMappingChange}
+                        />
+
                         <div className="flex flex-col gap-3 md:col-span-3">
                             <h3 className="font-semibold text-lg text-white">4. Generation Range <span className="text-gray-400 font-normal">(Optional)</span></h3>
                             <div className="grid grid-cols-2 gap-4">
@@ -578,94 +1121,190 @@ You: "Jordan and Casey on a date at a pizzeria."`;
                         </div>
 
                         <div className="flex flex-col gap-3 md:col-span-3 lg:mt-4">
-                           <button onClick={handleStartGeneration} disabled={isGenerating || prompts.length === 0 || activeKeys.length === 0} className="flex items-center justify-center gap-2 w-full px-4 py-3 rounded-lg bg-green-600 hover:bg-green-700 text-white font-bold transition-colors disabled:bg-green-800 disabled:text-gray-400 disabled:cursor-not-allowed">
-                                <GenerateIcon className="w-5 h-5" />
-                                <span>{isGenerating ? 'Generating...' : `Start Generating with ${MODELS[selectedModel].name}`}</span>
-                            </button>
+                           {costEstimate && (
+                               <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-300 bg-gray-900/40 rounded-lg px-4 py-2">
+                                   <p title="List prices per image; translation and preprocessing calls are not included">
+                                       Estimated cost: <span className="font-bold text-white">{formatUsd(costEstimate.cost)}</span> for {costEstimate.images} image(s)
+                                       {costEstimate.unpricedImages > 0 && <span className="text-gray-500"> ({costEstimate.unpricedImages} without a known price)</span>}
+                                   </p>
+                                   <label className="flex items-center gap-2" title="Pause the queue before the batch would spend more than this; 0 for no cap">
+                                       Budget cap $
+                                       <input type="number" min="0" step="0.5" value={budgetLimit} onChange={(e) => handleBudgetLimitChange(Math.max(0, Number(e.target.value)))} className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" />
+                                   </label>
+                               </div>
+                           )}
+                           <div className="flex gap-3">
+                               <button onClick={handlePreviewPrompts} disabled={isGenerating || prompts.length === 0} title="Show the processed prompts without generating images" className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                    <TuneIcon className="w-5 h-5" />
+                                    <span>Preview Prompts</span>
+                                </button>
+                               <button onClick={handleCompareModels} disabled={isGenerating || prompts.length === 0} title="Run the same rows through several models side by side" className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                    <TargetIcon className="w-5 h-5" />
+                                    <span>Compare Models</span>
+                                </button>
+                               <button onClick={handleStartGeneration} disabled={isGenerating || prompts.length === 0 || activeKeys.length === 0} className="flex-grow flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-green-600 hover:bg-green-700 text-white font-bold transition-colors disabled:bg-green-800 disabled:text-gray-400 disabled:cursor-not-allowed">
+                                    <GenerateIcon className="w-5 h-5" />
+                                    <span>{isGenerating ? 'Generating...' : `Start Generating with ${activeAdapter.name}`}</span>
+                                </button>
+                           </div>
                         </div>
 
                         <div className="md:col-span-3 border-t border-gray-700 mt-4 pt-6">
                             <h3 className="font-semibold text-lg text-white mb-4 text-center md:text-left">Advanced Settings</h3>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+                                <PromptTemplateSettings
+                                    template={promptTemplate}
+                                    onTemplateChange={setPromptTemplate}
+                                    presets={stylePresets}
+                                    selectedPresetId={selectedStylePresetId}
+                                    onSelectPreset={setSelectedStylePresetId}
+                                    onSavePreset={handleSaveStylePreset}
+                                    onDeletePreset={handleDeleteStylePreset}
+                                    previewRow={prompts[0]}
+                                    disabled={isGenerating}
+                                />
                                 <div className="flex flex-col gap-2">
                                     <label htmlFor="concurrency" className="flex items-center gap-2 text-sm"><TuneIcon className="w-5 h-5" /> Concurrent Tasks: <span className="font-bold">{concurrencyLimit}</span></label>
-                                    <input id="concurrency" type="range" min="1" max="5" value={concurrencyLimit} onChange={(e) => setConcurrencyLimit(Number(e.target.value))} disabled={isGenerating} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                                    <input id="concurrency" type="range" min="1" max="10" value={concurrencyLimit} onChange={(e) => setConcurrencyLimit(Number(e.target.value))} disabled={isGenerating} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    <label className="flex items-center gap-2 text-sm"><ClockIcon className="w-5 h-5" /> Rate Limit per {activeProvider} Key</label>
+                                    <div className="flex items-center gap-2 text-sm text-gray-300">
+                                        <input type="number" min="0" value={activeRateLimit.rpm} onChange={(e) => handleRateLimitChange({ ...activeRateLimit, rpm: Math.max(0, Number(e.target.value)) })} className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" title="Requests per minute, 0 for unlimited" />
+                                        / min
+                                        <input type="number" min="0" value={activeRateLimit.rpd} onChange={(e) => handleRateLimitChange({ ...activeRateLimit, rpd: Math.max(0, Number(e.target.value)) })} className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white" title="Requests per day, 0 for unlimited" />
+                                        / day
+                                    </div>
+                                    <p className="text-xs text-gray-500">Requests are spread over all {activeKeys.length} key(s); a rate-limited key rests until the provider's Retry-After passes. 0 = unlimited.</p>
                                 </div>
+                                <RetryPolicySettings policy={retryPolicy} onChange={setRetryPolicy} disabled={isGenerating} />
+                                <FallbackChainSettings primaryModel={selectedModel} fallbackModels={fallbackModels.filter(m => m !== selectedModel)} onChange={setFallbackModels} apiKeys={apiKeys} disabled={isGenerating} />
                                 <div className="flex flex-col gap-2">
-                                    <label htmlFor="delay" className="flex items-center gap-2 text-sm"><ClockIcon className="w-5 h-5" /> Request Delay: <span className="font-bold">{(requestDelay / 1000).toFixed(1)}s</span></label>
-                                    <input id="delay" type="range" min="0" max="5000" step="100" value={requestDelay} onChange={(e) => setRequestDelay(Number(e.target.value))} disabled={isGenerating} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                                    <label htmlFor="variants" className="flex items-center gap-2 text-sm"><GenerateIcon className="w-5 h-5" /> Variants per Prompt: <span className="font-bold">{variantsPerPrompt}</span></label>
+                                    <input id="variants" type="range" min="1" max="4" value={variantsPerPrompt} onChange={(e) => setVariantsPerPrompt(Number(e.target.value))} disabled={isGenerating} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
                                 </div>
                                 <div className="flex flex-col gap-2">
-                                    <label htmlFor="safety" className="flex items-center gap-2 text-sm"><ShieldIcon className="w-5 h-5" /> Safety Filtering (Google AI)</label>
+                                    <label htmlFor="safety" className="flex items-center gap-2 text-sm"><ShieldIcon className="w-5 h-5" /> Safety Filtering</label>
                                     <select 
                                         id="safety" 
                                         value={safetyLevel} 
                                         onChange={(e) => setSafetyLevel(e.target.value as SafetyLevel)}
-                                        disabled={isGenerating || MODELS[selectedModel].provider !== 'google'} 
+                                        disabled={isGenerating || !activeAdapter.capabilities.supportsSafetySettings} 
                                         className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                                        title={MODELS[selectedModel].provider !== 'google' ? 'This setting is only available for Google AI models.' : ''}
+                                        title={!activeAdapter.capabilities.supportsSafetySettings ? `${activeAdapter.name} has no adjustable safety filter.` : ''}
                                     >
                                         <option value="default">Standard (Default)</option>
                                         <option value="lenient">Lenient</option>
                                         <option value="none">Permissive (Block None)</option>
                                     </select>
+                                    <p className="text-xs text-gray-500">Google models use it as their block threshold. GPT Image 1 lowers its moderation only for Lenient.</p>
                                 </div>
                                 <div className="flex flex-col gap-2">
-                                    <label className="flex items-center gap-2 text-sm"><AnonymizeIcon className="w-5 h-5" /> Anonymize Prompts</label>
-                                    <div className="flex items-center">
-                                        <button
-                                            type="button"
-                                            className={`${
-                                                anonymizePrompts ? 'bg-indigo-600' : 'bg-gray-600'
-                                            } relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed`}
-                                            role="switch"
-                                            aria-checked={anonymizePrompts}
-                                            onClick={() => setAnonymizePrompts(!anonymizePrompts)}
-                                            disabled={isGenerating || apiKeys.google.length === 0}
-                                            title={apiKeys.google.length === 0 ? "Requires a Google AI key to be added." : "Automatically replaces names of famous people with generic names to improve safety compliance."}
-                                        >
-                                            <span
-                                                aria-hidden="true"
-                                                className={`${
-                                                    anonymizePrompts ? 'translate-x-5' : 'translate-x-0'
-                                                } pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out`}
-                                            />
-                                        </button>
-                                        <span className="ml-3 text-xs text-gray-400">
-                                            {apiKeys.google.length === 0 ? "Requires Google AI Key" : (anonymizePrompts ? "Enabled" : "Disabled")}
-                                        </span>
-                                    </div>
+                                    <label htmlFor="safety-rewrites" className="flex items-center gap-2 text-sm"><ShieldIcon className="w-5 h-5" /> Rewrite Blocked Prompts: <span className="font-bold">{safetyRewriteAttempts === 0 ? 'Off' : `up to ${safetyRewriteAttempts}x`}</span></label>
+                                    <input id="safety-rewrites" type="range" min="0" max="5" value={safetyRewriteAttempts} onChange={(e) => setSafetyRewriteAttempts(Number(e.target.value))} disabled={isGenerating || apiKeys.google.length === 0} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50" />
+                                    <p className="text-xs text-gray-500">{apiKeys.google.length === 0 ? "Requires a Google AI key." : "When the safety filter blocks a prompt, Gemini paraphrases it and the image is requested again."}</p>
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    <label htmlFor="source-language" className="flex items-center gap-2 text-sm"><TuneIcon className="w-5 h-5" /> Prompt Language</label>
+                                    <select
+                                        id="source-language"
+                                        value={sourceLanguage}
+                                        onChange={(e) => setSourceLanguage(e.target.value)}
+                                        disabled={isGenerating || apiKeys.google.length === 0}
+                                        className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <option value={AUTO_DETECT_LANGUAGE}>Auto-detect</option>
+                                        {Object.entries(PROMPT_LANGUAGES).map(([code, name]) => (
+                                            <option key={code} value={code}>{code === ENGLISH ? 'English (no translation)' : name}</option>
+                                        ))}
+                                        {!(sourceLanguage in PROMPT_LANGUAGES) && sourceLanguage !== AUTO_DETECT_LANGUAGE && <option value={sourceLanguage}>{sourceLanguage}</option>}
+                                    </select>
+                                    <p className="text-xs text-gray-500">
+                                        {apiKeys.google.length === 0
+                                            ? "Requires a Google AI key."
+                                            : sourceLanguage === AUTO_DETECT_LANGUAGE && detectedLanguage
+                                                ? `Detected ${getLanguageName(detectedLanguage)}${detectedLanguage === ENGLISH ? ', prompts are sent as written.' : '; prompts are translated to English with Gemini before generation.'}`
+                                                : "Non-English prompts are translated to English with Gemini before generation. The original text stays on the card."}
+                                    </p>
                                 </div>
+                                <PreprocessPipelineSettings steps={preprocessSteps} onChange={handlePreprocessStepsChange} hasGoogleKey={apiKeys.google.length > 0} disabled={isGenerating} />
                             </div>
                         </div>
                     </div>
                 </div>
 
+                <JobList jobs={savedJobs} activeJobId={currentJobId} disabled={isGenerating} onResume={handleResumeJob} onDelete={handleDeleteJob} />
+
                 {(isGenerating || results.length > 0) && (
                     <div className="mb-8">
                         {isGenerating && (
                             <div className="bg-gray-800 p-4 rounded-lg">
-                                <p className="text-center mb-2">{`Generating image... ${progress.current}/${progress.total}`}</p>
-                                <div className="w-full bg-gray-700 rounded-full h-2.5"><div className="bg-indigo-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}></div></div>
+                                <p className="text-center mb-2">{`${isPaused ? 'Paused' : 'Generating image...'} ${progress.current}/${progress.total}`} <span className="text-gray-400">&middot; spent {formatUsd(batchSpend)}{budgetLimit > 0 ? ` of ${formatUsd(budgetLimit)}` : ''}</span></p>
+                                {isBudgetPaused && (
+                                    <p className="text-center text-sm text-yellow-400 mb-2">The budget cap was reached. Raise it above and resume, or cancel the remaining rows.</p>
+                                )}
+                                <div className="w-full bg-gray-700 rounded-full h-2.5"><div className={`${isPaused ? 'bg-yellow-500' : 'bg-indigo-600'} h-2.5 rounded-full`} style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}></div></div>
+                                <div className="flex justify-center gap-3 mt-4">
+                                    {isPaused ? (
+                                        <button onClick={handleResume} className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-indigo-600 hover:bg-indigo-700 transition-colors">
+                                            <PlayIcon className="w-4 h-4" /><span>Resume</span>
+                                        </button>
+                                    ) : (
+                                        <button onClick={handlePause} className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors" title="Finish in-flight images, then stop taking new ones">
+                                            <PauseIcon className="w-4 h-4" /><span>Pause</span>
+                                        </button>
+                                    )}
+                                    <button onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-red-800 hover:bg-red-700 transition-colors" title="Abort in-flight requests and cancel the remaining rows">
+                                        <StopIcon className="w-4 h-4" /><span>Cancel</span>
+                                    </button>
+                                </div>
                             </div>
                         )}
                         {!isGenerating && results.length > 0 && (
-                            <div className="flex justify-between items-center bg-gray-800/50 p-4 rounded-lg">
-                                <p>{`Generation complete. ${successfulGenerations} / ${results.length} images created.`}</p>
-                                <button onClick={handleDownloadAll} disabled={successfulGenerations === 0} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800">
-                                    <DownloadIcon className="w-5 h-5" /><span>Download All (.zip)</span>
-                                </button>
-                            </div>
+                            <>
+                                <div className="flex justify-between items-center bg-gray-800/50 p-4 rounded-lg">
+                                    <p>{`Generation complete. ${successfulGenerations} / ${results.length} images created.`} <span className="text-gray-400">{batchSpend > 0 && `Spent ${formatUsd(batchSpend)}.`}</span></p>
+                                    <button onClick={handleDownloadAll} disabled={successfulGenerations === 0 || isExporting} className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800">
+                                        <DownloadIcon className="w-5 h-5" /><span>{isExporting ? 'Preparing...' : 'Download All (.zip)'}</span>
+                                    </button>
+                                </div>
+                                <ExportOptionsPanel options={exportOptions} onChange={setExportOptions} disabled={isExporting} />
+                            </>
                         )}
                     </div>
                 )}
                 
+                {results.length > 0 && (
+                    <div className="mb-6">
+                        <BulkActionsBar
+                            selectedCount={selectedResults.length}
+                            failedCount={failedResults.length}
+                            totalCount={results.length}
+                            defaultModel={selectedModel}
+                            disabled={isGenerating || isExporting}
+                            onSelectAll={() => setSelectedIds(new Set(results.map(r => r.id)))}
+                            onSelectFailed={() => setSelectedIds(new Set(failedResults.map(r => r.id)))}
+                            onClearSelection={() => setSelectedIds(new Set())}
+                            onRetrySelected={() => regenerateResults(selectedResults, batchSettings)}
+                            onRetryAllFailed={() => regenerateResults(failedResults, batchSettings)}
+                            onRegenerateWithModel={handleRegenerateWithModel}
+                            onFindReplace={handleFindReplace}
+                            onDownloadSelected={() => downloadArchive(selectedResults, 'ai-generated-images-selection.zip')}
+                            onDeleteSelected={handleDeleteSelected}
+                        />
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-                    {results.map(result => <ImageCard key={result.id} result={result} onRetry={handleRetry} onEdit={() => setEditingResult(result)} />)}
+                    {results.map(result => <ImageCard key={result.id} result={result} isSelected={selectedIds.has(result.id)} onToggleSelect={handleToggleSelect} onRetry={handleRetry} onEdit={() => setEditingResult(result)} onChooseVariant={handleChooseVariant} onShowHistory={setHistoryResultId} />)}
                 </div>
 
-                {editingResult && <EditModal result={editingResult} onClose={() => setEditingResult(null)} onSave={handleEditAndSave} />}
-                {isViewKeysModalOpen && <ViewKeysModal provider={activeProvider} keys={activeKeys} onClose={() => setIsViewKeysModalOpen(false)} onRemoveKey={(key) => onRemoveKey(key, activeProvider)} onAddKeys={(newKeys) => { onAddKeys(newKeys, activeProvider); }} activeKeyIndex={activeKeyIndex} isManualSelection={isManualKeySelection} onSelectKey={handleSelectKey} onSetAutomatic={() => setIsManualKeySelection(false)} />}
+                {editingResult && <EditModal result={editingResult} onClose={() => setEditingResult(null)} onSave={handleEditAndSave} onEditImage={handleEditImage} onShowHistory={(id) => { setEditingResult(null); setHistoryResultId(id); }} />}
+                {isSpendModalOpen && <SpendHistoryModal history={spendHistory} onClose={() => setIsSpendModalOpen(false)} onReset={handleResetSpendHistory} />}
+                {modelComparison && <ModelComparisonModal {...modelComparison} apiKeys={apiKeys} onGenerate={generateWithModel} onClose={() => setModelComparison(null)} />}
+                {promptPreview && <PromptPreviewModal {...promptPreview} onClose={() => setPromptPreview(null)} onStart={() => { setPromptPreview(null); handleStartGeneration(); }} />}
+                {historyResult && <VersionHistoryModal result={historyResult} onClose={() => setHistoryResultId(null)} onRevert={handleRevertVersion} />}
+                {isViewKeysModalOpen && <ViewKeysModal provider={activeProvider} keys={activeKeys} onClose={() => setIsViewKeysModalOpen(false)} onRemoveKey={(key) => onRemoveKey(key, activeProvider)} onAddKeys={(newKeys) => { onAddKeys(newKeys, activeProvider); }} activeKeyIndex={activeKeyIndex} isManualSelection={isManualKeySelection} onSelectKey={handleSelectKey} onSetAutomatic={() => setIsManualKeySelection(false)} health={keyHealth} usage={activeKeys.map(key => keySchedulerRef.current.getUsage(key, activeRateLimit))} testModelName={activeAdapter.name} onTestKey={handleTestKey} onSetKeyEnabled={handleSetKeyEnabled} />}
             </main>
         </div>
     );
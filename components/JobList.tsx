@@ -0,0 +1,58 @@
+import React from 'react';
+import { BatchJobSummary } from '../types';
+import { RetryIcon, TrashIcon } from './icons';
+
+interface JobListProps {
+    jobs: BatchJobSummary[];
+    activeJobId: string | null;
+    disabled: boolean;
+    onResume: (jobId: string) => void;
+    onDelete: (jobId: string) => void;
+}
+
+const JobList: React.FC<JobListProps> = ({ jobs, activeJobId, disabled, onResume, onDelete }) => {
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 mb-8 shadow-lg">
+            <h3 className="font-semibold text-lg text-white mb-4">Saved Jobs</h3>
+            <div className="max-h-60 overflow-y-auto pr-2 space-y-2">
+                {jobs.map(job => {
+                    const remaining = job.total - job.completed;
+                    return (
+                        <div key={job.id} className={`flex items-center justify-between p-3 rounded-lg ${job.id === activeJobId ? 'bg-gray-900' : 'bg-gray-900/50'}`}>
+                            <div className="min-w-0">
+                                <p className="text-sm text-gray-200 truncate" title={job.name}>{job.name}</p>
+                                <p className="text-xs text-gray-500">
+                                    {new Date(job.updatedAt).toLocaleString()} &middot; {job.completed}/{job.total} done
+                                    {job.failed > 0 && <span className="text-red-400"> &middot; {job.failed} failed</span>}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => onResume(job.id)}
+                                    disabled={disabled}
+                                    title={remaining > 0 ? `Resume the ${remaining} unfinished rows` : 'Open this job'}
+                                    className="flex items-center gap-1.5 px-3 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <RetryIcon className="w-4 h-4" />
+                                    {remaining > 0 ? 'Resume' : 'Open'}
+                                </button>
+                                <button
+                                    onClick={() => onDelete(job.id)}
+                                    disabled={disabled}
+                                    title="Delete Job"
+                                    className="p-2 text-gray-500 hover:text-red-400 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default JobList;
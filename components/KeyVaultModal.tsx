@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { CloseIcon, DownloadIcon, ShieldIcon } from './icons';
+
+interface KeyVaultModalProps {
+    isEnabled: boolean;
+    onClose: () => void;
+    onEnable: (passphrase: string) => Promise<void>;
+    onChangePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+    onDisable: () => void;
+    onExport: () => void;
+    onLock: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const KeyVaultModal: React.FC<KeyVaultModalProps> = ({ isEnabled, onClose, onEnable, onChangePassphrase, onDisable, onExport, onLock }) => {
+    const [currentPassphrase, setCurrentPassphrase] = useState('');
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const validationError =
+        passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.` :
+        passphrase !== confirmation ? 'The passphrases do not match.' : '';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (validationError) return setError(validationError);
+        setIsSaving(true);
+        setError('');
+        setMessage('');
+        try {
+            if (isEnabled) {
+                await onChangePassphrase(currentPassphrase, passphrase);
+                setMessage('Passphrase changed.');
+            } else {
+                await onEnable(passphrase);
+                setMessage('Your keys are now encrypted.');
+            }
+            setCurrentPassphrase('');
+            setPassphrase('');
+            setConfirmation('');
+        } catch (err: any) {
+            setError(err?.message ?? 'Could not update the vault.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClassName = "w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+    const secondaryButtonClassName = "flex items-center gap-2 px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-lg relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <CloseIcon className="w-6 h-6" />
+                </button>
+                <div className="p-8">
+                    <h2 className="flex items-center gap-2 text-2xl font-bold text-white mb-2"><ShieldIcon className="w-6 h-6" /> Key Vault</h2>
+                    <p className="text-gray-400 mb-6">
+                        {isEnabled
+                            ? 'Your API keys are encrypted with your passphrase and unlocked for this session only.'
+                            : 'Your API keys are stored unencrypted in this browser. Set a passphrase to encrypt them; you will need it each time you open the app.'}
+                    </p>
+
+                    <form onSubmit={handleSubmit} className="space-y-3">
+                        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">{isEnabled ? 'Change Passphrase' : 'Set Passphrase'}</h3>
+                        {isEnabled && (
+                            <input type="password" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} placeholder="Current passphrase" className={inputClassName} />
+                        )}
+                        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="New passphrase" className={inputClassName} />
+                        <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat new passphrase" className={inputClassName} />
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        {message && <p className="text-sm text-green-400">{message}</p>}
+                        <button
+                            type="submit"
+                            disabled={isSaving || !passphrase || (isEnabled && !currentPassphrase)}
+                            className="w-full py-2.5 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-colors disabled:bg-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                        >
+                            {isSaving ? 'Encrypting...' : isEnabled ? 'Change Passphrase' : 'Encrypt My Keys'}
+                        </button>
+                        <p className="text-xs text-gray-500">A forgotten passphrase cannot be recovered; you would have to enter your keys again.</p>
+                    </form>
+
+                    {isEnabled && (
+                        <div className="mt-8 flex flex-wrap gap-2">
+                            <button onClick={onExport} className={secondaryButtonClassName} title="Download the encrypted vault to restore it in another browser">
+                                <DownloadIcon className="w-4 h-4" /> Export Vault File
+                            </button>
+                            <button onClick={onLock} className={secondaryButtonClassName}>
+                                Lock Now
+                            </button>
+                            <button onClick={onDisable} className="px-4 py-2 text-sm bg-red-800 hover:bg-red-700 text-white rounded-lg transition-colors">
+                                Remove Encryption
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default KeyVaultModal;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface MaskCanvasProps {
+    imageUrl: string;
+    onMaskChange: (mask: string | null) => void;
+}
+
+/**
+ * Lets the user paint over the image. The exported mask has the image's own
+ * dimensions and is opaque everywhere except the painted area, which is what
+ * the OpenAI edits endpoint expects.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, onMaskChange }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const isDrawingRef = useRef(false);
+    const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+    const [brushSize, setBrushSize] = useState(40);
+    const [hasStrokes, setHasStrokes] = useState(false);
+
+    useEffect(() => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            setHasStrokes(false);
+            onMaskChange(null);
+        };
+        image.src = imageUrl;
+    }, [imageUrl]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    // Brush size is given in displayed pixels so it feels the same at any image resolution.
+    const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        const point = toCanvasPoint(e);
+        const from = lastPointRef.current ?? point;
+        context.strokeStyle = '#ef4444';
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(point.x, point.y);
+        context.stroke();
+        lastPointRef.current = point;
+    };
+
+    const exportMask = () => {
+        const strokes = canvasRef.current;
+        if (!strokes) return;
+        const mask = document.createElement('canvas');
+        mask.width = strokes.width;
+        mask.height = strokes.height;
+        const context = mask.getContext('2d');
+        if (!context) return;
+        context.fillStyle = '#000000';
+        context.fillRect(0, 0, mask.width, mask.height);
+        context.globalCompositeOperation = 'destination-out';
+        context.drawImage(strokes, 0, 0);
+        onMaskChange(mask.toDataURL('image/png'));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        isDrawingRef.current = true;
+        lastPointRef.current = null;
+        drawTo(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (isDrawingRef.current) drawTo(e);
+    };
+
+    const handlePointerUp = () => {
+        if (!isDrawingRef.current) return;
+        isDrawingRef.current = false;
+        lastPointRef.current = null;
+        setHasStrokes(true);
+        exportMask();
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasStrokes(false);
+        onMaskChange(null);
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="relative rounded-lg overflow-hidden bg-gray-900">
+                <img src={imageUrl} alt="Image to edit" className="w-full h-auto block select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                />
+            </div>
+            <div className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                <label className="flex items-center gap-2">
+                    Brush: <span className="font-bold w-8">{brushSize}</span>
+                    <input type="range" min="5" max="120" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-28 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                </label>
+                <button onClick={handleClear} disabled={!hasStrokes} className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    Clear mask
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ApiKeys, BatchJobSettings, CsvRow, ImageResult, ModelId, Provider } from '../types';
+import { MODELS } from '../services/providers';
+import { formatUsd } from '../services/pricing';
+import { getChosenVariant } from '../services/results';
+import {
+    ComparisonCell,
+    comparisonCellKey,
+    estimateComparisonCost,
+    MAX_COMPARED_MODELS,
+    MIN_COMPARED_MODELS,
+    sampleRows,
+    summarizeComparison,
+    toComparisonSettings,
+} from '../services/modelComparison';
+import { isAbortError } from '../services/timing';
+import { CloseIcon, ErrorIcon, GenerateIcon, StarIcon, StopIcon } from './icons';
+import Spinner from './Spinner';
+
+interface ModelComparisonModalProps {
+    rows: CsvRow[];
+    settings: BatchJobSettings;
+    apiKeys: ApiKeys;
+    // One attempt with exactly the given settings, without fallback models.
+    onGenerate: (result: ImageResult, settings: BatchJobSettings, signal: AbortSignal) => Promise<ImageResult>;
+    onClose: () => void;
+}
+
+const DEFAULT_SAMPLE_SIZE = 10;
+
+const formatLatency = (ms: number | null) => ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`;
+
+// Runs the same rows through several models and collects a vote per row. Results stay
+// in this modal and are not added to the batch.
+const ModelComparisonModal: React.FC<ModelComparisonModalProps> = ({ rows, settings, apiKeys, onGenerate, onClose }) => {
+    const hasKeys = (id: ModelId) => apiKeys[MODELS[id].provider as Provider].length > 0;
+    const [models, setModels] = useState<ModelId[]>(() => {
+        const others = (Object.keys(MODELS) as ModelId[]).filter(id => id !== settings.model && hasKeys(id));
+        return [settings.model, ...others].slice(0, MIN_COMPARED_MODELS);
+    });
+    const [sampleSize, setSampleSize] = useState(Math.min(rows.length, DEFAULT_SAMPLE_SIZE));
+    const [run, setRun] = useState<{ rows: CsvRow[], models: ModelId[] } | null>(null);
+    const [cells, setCells] = useState<Record<string, ComparisonCell>>({});
+    const [votes, setVotes] = useState<Record<string, ModelId>>({});
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const sample = sampleRows(rows, sampleSize);
+    const estimatedCost = estimateComparisonCost(sample, settings, models);
+    const canRun = models.length >= MIN_COMPARED_MODELS && sample.length > 0;
+
+    const toggleModel = (id: ModelId) => {
+        setModels(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+    };
+
+    const setCell = (row: CsvRow, model: ModelId, cell: ComparisonCell) => {
+        setCells(prev => ({ ...prev, [comparisonCellKey(row.id, model)]: cell }));
+    };
+
+    const handleRun = async () => {
+        if (!canRun) return;
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const runModels = [...models];
+        const tasks = sample.flatMap(row => runModels.map(model => ({ row, model })));
+        setRun({ rows: sample, models: runModels });
+        setVotes({});
+        setCells(Object.fromEntries(tasks.map(({ row, model }) => [
+            comparisonCellKey(row.id, model),
+            { result: { ...row, variants: [], chosenVariant: 0, status: 'pending' } },
+        ])));
+        setIsRunning(true);
+
+        const worker = async () => {
+            for (let task = tasks.shift(); task && !controller.signal.aborted; task = tasks.shift()) {
+                const { row, model } = task;
+                const result: ImageResult = { ...row, variants: [], chosenVariant: 0, status: 'generating' };
+                setCell(row, model, { result });
+                const startedAt = performance.now();
+                try {
+                    const outcome = await onGenerate(result, toComparisonSettings(row, settings, model), controller.signal);
+                    if (controller.signal.aborted) return;
+                    setCell(row, model, { result: outcome, latencyMs: performance.now() - startedAt });
+                } catch (error: any) {
+                    if (controller.signal.aborted || isAbortError(error)) return;
+                    console.error(`Comparison failed for row ${row.id} with ${model}:`, error);
+                    setCell(row, model, { result: { ...result, status: 'error', error: error.message }, latencyMs: performance.now() - startedAt });
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, settings.concurrencyLimit) }, worker));
+        if (controllerRef.current === controller) {
+            setIsRunning(false);
+        }
+    };
+
+    const handleStop = () => {
+        controllerRef.current?.abort();
+        setIsRunning(false);
+    };
+
+    const handleVote = (rowId: string, model: ModelId) => {
+        setVotes(prev => {
+            const { [rowId]: current, ...rest } = prev;
+            return current === model ? rest : { ...rest, [rowId]: model };
+        });
+    };
+
+    const stats = run ? summarizeComparison(run.rows.map(row => row.id), run.models, cells, votes) : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-7xl max-h-[90vh] flex flex-col relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <CloseIcon className="w-6 h-6" />
+                </button>
+                <div className="p-8 pb-4 flex flex-col gap-4">
+                    <div>
+                        <h2 className="text-2xl font-bold text-white mb-2">Compare Models</h2>
+                        <p className="text-gray-400">
+                            Generates one image per row with each selected model, using the current template, preprocessing and retry settings. Pick the best image in each row to build up a win rate. Comparison images are not added to the batch.
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {(Object.keys(MODELS) as ModelId[]).map(id => {
+                            const selected = models.includes(id);
+                            return (
+                                <button
+                                    key={id}
+                                    onClick={() => toggleModel(id)}
+                                    disabled={isRunning || !hasKeys(id) || (!selected && models.length >= MAX_COMPARED_MODELS)}
+                                    title={hasKeys(id) ? undefined : `No ${MODELS[id].provider} keys`}
+                                    className={`px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${selected ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+                                >
+                                    {MODELS[id].name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            Rows
+                            <input type="number" min="1" max={rows.length} value={sampleSize} onChange={(e) => setSampleSize(Math.min(rows.length, Math.max(1, Number(e.target.value))))} disabled={isRunning} className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-50" />
+                            <span className="text-gray-500">of {rows.length} in range</span>
+                        </label>
+                        <span title="List prices per image">
+                            {sample.length * models.length} image(s), about <span className="font-bold text-white">{formatUsd(estimatedCost)}</span>
+                        </span>
+                        <span className="flex-grow" />
+                        {isRunning ? (
+                            <button onClick={handleStop} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-800 hover:bg-red-700 transition-colors">
+                                <StopIcon className="w-5 h-5" /><span>Stop</span>
+                            </button>
+                        ) : (
+                            <button onClick={handleRun} disabled={!canRun} title={canRun ? undefined : `Select ${MIN_COMPARED_MODELS} to ${MAX_COMPARED_MODELS} models`} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white font-bold transition-colors disabled:bg-green-800 disabled:text-gray-400 disabled:cursor-not-allowed">
+                                <GenerateIcon className="w-5 h-5" /><span>{run ? 'Run Again' : 'Run Comparison'}</span>
+                            </button>
+                        )}
+                    </div>
+                    {stats.length > 0 && (
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-gray-400">
+                                <tr>
+                                    <th className="py-1.5 pr-4 font-semibold">Model</th>
+                                    <th className="py-1.5 pr-4 font-semibold text-right">Win Rate</th>
+                                    <th className="py-1.5 pr-4 font-semibold text-right">Failure Rate</th>
+                                    <th className="py-1.5 font-semibold text-right">Avg Latency</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {stats.map(stat => {
+                                    const finished = stat.successes + stat.failures;
+                                    return (
+                                        <tr key={stat.model} className="border-t border-gray-700">
+                                            <td className="py-1.5 pr-4 text-gray-300">{MODELS[stat.model].name}</td>
+                                            <td className="py-1.5 pr-4 text-right text-white">
+                                                {stat.votedRows > 0 ? `${Math.round(stat.wins / stat.votedRows * 100)}%` : '–'}
+                                                <span className="text-gray-500"> ({stat.wins}/{stat.votedRows})</span>
+                                            </td>
+                                            <td className="py-1.5 pr-4 text-right text-white">
+                                                {finished > 0 ? `${Math.round(stat.failures / finished * 100)}%` : '–'}
+                                                <span className="text-gray-500"> ({stat.failures}/{finished})</span>
+                                            </td>
+                                            <td className="py-1.5 text-right text-white">{formatLatency(stat.averageLatencyMs)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                {run && (
+                    <div className="px-8 pb-8 overflow-y-auto flex-grow flex flex-col gap-6 border-t border-gray-700 pt-4">
+                        {run.rows.map(row => (
+                            <div key={row.id}>
+                                <p className="text-sm text-gray-300 mb-2 truncate" title={row.prompt}>
+                                    <span className="font-mono text-gray-500">#{row.id}</span> {row.prompt}
+                                </p>
+                                <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${run.models.length}, minmax(0, 1fr))` }}>
+                                    {run.models.map(model => {
+                                        const cell = cells[comparisonCellKey(row.id, model)];
+                                        const image = cell && getChosenVariant(cell.result);
+                                        const isWinner = votes[row.id] === model;
+                                        return (
+                                            <div key={model} className={`bg-gray-900/40 rounded-lg overflow-hidden border-2 ${isWinner ? 'border-yellow-400' : 'border-transparent'}`}>
+                                                <div className="aspect-square flex items-center justify-center bg-gray-900">
+                                                    {cell?.result.status === 'success' && image ? (
+                                                        <img src={image.imageUrl} alt={row.prompt} className="w-full h-full object-contain" />
+                                                    ) : cell?.result.status === 'error' ? (
+                                                        <div className="p-3 text-center text-xs text-red-400 flex flex-col items-center gap-2">
+                                                            <ErrorIcon className="w-6 h-6" />
+                                                            <span className="line-clamp-4" title={cell.result.error}>{cell.result.error}</span>
+                                                        </div>
+                                                    ) : cell?.result.status === 'generating' ? (
+                                                        <Spinner />
+                                                    ) : (
+                                                        <span className="text-xs text-gray-500">{isRunning ? 'Queued' : 'Not run'}</span>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                                                    <span className="text-gray-300 truncate">
+                                                        {MODELS[model].name}
+                                                        {cell?.latencyMs !== undefined && <span className="text-gray-500"> · {formatLatency(cell.latencyMs)}</span>}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => handleVote(row.id, model)}
+                                                        disabled={cell?.result.status !== 'success'}
+                                                        title={isWinner ? 'Remove vote' : 'Pick as the best image for this row'}
+                                                        className={`p-1 rounded transition-colors disabled:opacity-30 ${isWinner ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-300'}`}
+                                                    >
+                                                        <StarIcon className="w-5 h-5" fill={isWinner ? 'currentColor' : 'none'} />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ModelComparisonModal;
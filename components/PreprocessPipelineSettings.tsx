@@ -0,0 +1,78 @@
+import React from 'react';
+import { PreprocessStep } from '../types';
+import { getStepName, PREPROCESS_STEP_DEFINITIONS } from '../services/promptPipeline';
+import { AnonymizeIcon, ChevronLeftIcon, ChevronRightIcon, TrashIcon } from './icons';
+
+interface PreprocessPipelineSettingsProps {
+    steps: PreprocessStep[];
+    onChange: (steps: PreprocessStep[]) => void;
+    hasGoogleKey: boolean;
+    disabled: boolean;
+}
+
+const PreprocessPipelineSettings: React.FC<PreprocessPipelineSettingsProps> = ({ steps, onChange, hasGoogleKey, disabled }) => {
+    const isDisabled = disabled || !hasGoogleKey;
+
+    const updateStep = (id: string, changes: Partial<PreprocessStep>) => {
+        onChange(steps.map(step => step.id === id ? { ...step, ...changes } : step));
+    };
+
+    const moveStep = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= steps.length) return;
+        const reordered = [...steps];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    const addCustomStep = () => {
+        onChange([...steps, { id: crypto.randomUUID(), kind: 'custom', enabled: true, name: '', instruction: '' }]);
+    };
+
+    const inputClassName = "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white placeholder-gray-500 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+    const iconButtonClassName = "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent";
+
+    return (
+        <div className="md:col-span-2 flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm"><AnonymizeIcon className="w-5 h-5" /> Prompt Preprocessing</label>
+            <p className="text-xs text-gray-500">
+                {hasGoogleKey
+                    ? "Enabled steps run top to bottom with Gemini before each prompt is sent. Results are cached, so repeated prompts are processed once. Translation to English is set with Prompt Language."
+                    : "Requires a Google AI key."}
+            </p>
+            <ol className="flex flex-col gap-1">
+                {steps.map((step, index) => (
+                    <li key={step.id} className="flex items-start gap-2 bg-gray-900/40 rounded-lg px-3 py-2">
+                        <input type="checkbox" checked={step.enabled} onChange={(e) => updateStep(step.id, { enabled: e.target.checked })} disabled={isDisabled} className="mt-1 accent-indigo-600" />
+                        <div className="flex-grow min-w-0">
+                            {step.kind === 'custom' ? (
+                                <div className="flex flex-col gap-1">
+                                    <input type="text" value={step.name ?? ''} onChange={(e) => updateStep(step.id, { name: e.target.value })} disabled={isDisabled} placeholder="Step name" className={inputClassName} />
+                                    <textarea value={step.instruction ?? ''} onChange={(e) => updateStep(step.id, { instruction: e.target.value })} disabled={isDisabled} rows={2} placeholder="Instruction for Gemini, e.g. Rewrite the prompt in the style of a children's book." className={`${inputClassName} resize-y`} />
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-200">{getStepName(step)} <span className="text-xs text-gray-500">{PREPROCESS_STEP_DEFINITIONS[step.kind].description}</span></p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-0.5 flex-shrink-0">
+                            <button onClick={() => moveStep(index, -1)} disabled={isDisabled || index === 0} title="Run earlier" className={`${iconButtonClassName} rotate-90`}>
+                                <ChevronLeftIcon className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => moveStep(index, 1)} disabled={isDisabled || index === steps.length - 1} title="Run later" className={`${iconButtonClassName} rotate-90`}>
+                                <ChevronRightIcon className="w-4 h-4" />
+                            </button>
+                            {step.kind === 'custom' && (
+                                <button onClick={() => onChange(steps.filter(s => s.id !== step.id))} disabled={isDisabled} title="Remove step" className={iconButtonClassName}>
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ol>
+            <button onClick={addCustomStep} disabled={isDisabled} className="self-start text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50">+ Add custom step</button>
+        </div>
+    );
+};
+
+export default PreprocessPipelineSettings;
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { BatchJobSettings, CsvRow } from '../types';
+import { composePrompt } from '../services/promptTemplates';
+import { getActiveSteps, PreprocessedPrompt } from '../services/promptPipeline';
+import { getLanguageName, needsTranslation, prepareRowPrompt } from '../services/translation';
+import { resolveRowSettings } from '../services/results';
+import { TextModelClient } from '../services/textModel';
+import { isAbortError } from '../services/timing';
+import { CloseIcon, GenerateIcon } from './icons';
+import Spinner from './Spinner';
+
+interface PromptPreviewModalProps {
+    rows: CsvRow[];
+    settings: BatchJobSettings;
+    client: TextModelClient | null;
+    onClose: () => void;
+    onStart: () => void;
+}
+
+interface PreviewRow {
+    id: string;
+    original: string;
+    processed?: PreprocessedPrompt;
+    error?: string;
+}
+
+// Runs templates and preprocessing for every row without generating images. The props
+// must stay stable while the modal is open, since a change restarts the preview.
+const PromptPreviewModal: React.FC<PromptPreviewModalProps> = ({ rows, settings, client, onClose, onStart }) => {
+    const [previews, setPreviews] = useState<PreviewRow[]>([]);
+    const [isRunning, setIsRunning] = useState(true);
+    // Without a client, translation fails each row instead of being skipped.
+    const translates = needsTranslation(settings.sourceLanguage);
+    const hasSteps = translates || (!!client && getActiveSteps(settings.preprocessSteps).length > 0);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const run = async () => {
+            setPreviews([]);
+            setIsRunning(true);
+            for (const row of rows) {
+                const { prompt, missing } = composePrompt(row, resolveRowSettings(row, settings));
+                let preview: PreviewRow = { id: row.id, original: prompt };
+                if (missing.length > 0) {
+                    preview.error = `Template variables without a value: ${missing.map(name => `{${name}}`).join(', ')}`;
+                } else {
+                    try {
+                        preview = { ...preview, processed: await prepareRowPrompt(client, prompt, row, settings, controller.signal) };
+                    } catch (error: any) {
+                        if (controller.signal.aborted || isAbortError(error)) return;
+                        preview.error = error.message;
+                    }
+                }
+                if (controller.signal.aborted) return;
+                setPreviews(prev => [...prev, preview]);
+            }
+            setIsRunning(false);
+        };
+        run();
+        return () => controller.abort();
+    }, [rows, settings, client]);
+
+    const changedCount = previews.filter(p => p.processed && p.processed.prompt !== p.original).length;
+    const failedCount = previews.filter(p => p.error).length;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <CloseIcon className="w-6 h-6" />
+                </button>
+                <div className="p-8 pb-4">
+                    <h2 className="text-2xl font-bold text-white mb-2">Prompt Preview</h2>
+                    <p className="text-gray-400">
+                        {hasSteps
+                            ? `What will be sent for each of the ${rows.length} row(s)${translates ? `, translated from ${getLanguageName(settings.sourceLanguage)}` : ''}. No images are generated; processed prompts are cached and reused when you start.`
+                            : `No translation or preprocessing steps are active, so prompts are sent as shown unless a row has a manual translation.`}
+                    </p>
+                    <p className="text-sm text-gray-300 mt-2 flex items-center gap-2">
+                        {isRunning && <Spinner />}
+                        {previews.length} / {rows.length} processed, {changedCount} changed{failedCount > 0 && <span className="text-red-400">, {failedCount} failed</span>}
+                    </p>
+                </div>
+                <div className="px-8 overflow-y-auto flex-grow">
+                    <table className="w-full text-sm">
+                        <thead className="text-left text-gray-400 sticky top-0 bg-gray-800">
+                            <tr>
+                                <th className="py-2 pr-4 font-semibold w-16">ID</th>
+                                <th className="py-2 pr-4 font-semibold">Original</th>
+                                <th className="py-2 font-semibold">Processed</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {previews.map((preview, index) => (
+                                <tr key={index} className="border-t border-gray-700 align-top">
+                                    <td className="py-2 pr-4 font-mono text-gray-400">{preview.id}</td>
+                                    <td className="py-2 pr-4 text-gray-300 break-words">{preview.original}</td>
+                                    <td className="py-2 break-words">
+                                        {preview.error ? (
+                                            <span className="text-red-400">{preview.error}</span>
+                                        ) : preview.processed ? (
+                                            <span
+                                                className={preview.processed.prompt !== preview.original ? 'text-green-300' : 'text-gray-500'}
+                                                title={preview.processed.stages.map(stage => `${stage.name}: ${stage.output}`).join('\n')}
+                                            >
+                                                {preview.processed.prompt !== preview.original ? preview.processed.prompt : 'Unchanged'}
+                                            </span>
+                                        ) : (
+                                            <span className="text-gray-500">Unchanged</span>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="p-8 pt-4 flex justify-end gap-3 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 transition-colors">Close</button>
+                    <button onClick={onStart} disabled={isRunning} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white font-bold transition-colors disabled:bg-green-800 disabled:text-gray-400 disabled:cursor-not-allowed">
+                        <GenerateIcon className="w-5 h-5" /><span>Start Generation</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptPreviewModal;
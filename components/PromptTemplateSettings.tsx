@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { CsvRow, StylePreset } from '../types';
+import { composePrompt, isBuiltInPreset } from '../services/promptTemplates';
+import { TrashIcon } from './icons';
+
+interface PromptTemplateSettingsProps {
+    template: string;
+    onTemplateChange: (template: string) => void;
+    presets: StylePreset[];
+    selectedPresetId: string;
+    onSelectPreset: (presetId: string) => void;
+    onSavePreset: (preset: StylePreset) => void;
+    onDeletePreset: (presetId: string) => void;
+    previewRow?: CsvRow;
+    disabled: boolean;
+}
+
+const EMPTY_PRESET_FORM = { name: '', prefix: '', suffix: '', negative: '' };
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({
+    template,
+    onTemplateChange,
+    presets,
+    selectedPresetId,
+    onSelectPreset,
+    onSavePreset,
+    onDeletePreset,
+    previewRow,
+    disabled,
+}) => {
+    const [isAddingPreset, setIsAddingPreset] = useState(false);
+    const [presetForm, setPresetForm] = useState(EMPTY_PRESET_FORM);
+
+    const selectedPreset = presets.find(p => p.id === selectedPresetId) ?? null;
+    const preview = previewRow ? composePrompt(previewRow, { promptTemplate: template, stylePreset: selectedPreset }) : null;
+
+    const handleSavePreset = () => {
+        if (!presetForm.name.trim()) return;
+        const preset: StylePreset = { id: crypto.randomUUID(), ...presetForm, name: presetForm.name.trim() };
+        onSavePreset(preset);
+        onSelectPreset(preset.id);
+        setPresetForm(EMPTY_PRESET_FORM);
+        setIsAddingPreset(false);
+    };
+
+    const inputClassName = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm";
+
+    return (
+        <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            <div className="flex flex-col gap-2">
+                <label htmlFor="prompt-template" className="text-sm">Prompt Template <span className="text-gray-400">(Optional)</span></label>
+                <textarea
+                    id="prompt-template"
+                    value={template}
+                    onChange={(e) => onTemplateChange(e.target.value)}
+                    disabled={disabled}
+                    rows={3}
+                    className={`${inputClassName} font-mono resize-y`}
+                    placeholder="{prompt}, flat vector illustration, {palette} palette, no text"
+                />
+                <p className="text-xs text-gray-500">Use <span className="font-mono">{'{prompt}'}</span>, <span className="font-mono">{'{id}'}</span> or any CSV column name, e.g. <span className="font-mono">{'{subject}'}</span>.</p>
+            </div>
+            <div className="flex flex-col gap-2">
+                <label htmlFor="style-preset" className="text-sm">Style Preset</label>
+                <div className="flex items-center gap-2">
+                    <select
+                        id="style-preset"
+                        value={selectedPresetId}
+                        onChange={(e) => onSelectPreset(e.target.value)}
+                        disabled={disabled}
+                        className={inputClassName}
+                    >
+                        <option value="">None</option>
+                        {presets.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                    </select>
+                    {selectedPreset && !isBuiltInPreset(selectedPreset) && (
+                        <button
+                            onClick={() => { onDeletePreset(selectedPreset.id); onSelectPreset(''); }}
+                            disabled={disabled}
+                            title="Delete Preset"
+                            className="p-2 text-gray-500 hover:text-red-400 rounded-full transition-colors flex-shrink-0"
+                        >
+                            <TrashIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
+                {!isAddingPreset ? (
+                    <button onClick={() => setIsAddingPreset(true)} disabled={disabled} className="text-sm text-indigo-400 hover:text-indigo-300 text-left disabled:opacity-50">
+                        + New preset
+                    </button>
+                ) : (
+                    <div className="flex flex-col gap-2 p-3 rounded-lg bg-black/20">
+                        <input value={presetForm.name} onChange={(e) => setPresetForm(f => ({ ...f, name: e.target.value }))} placeholder="Preset name" className={inputClassName} />
+                        <input value={presetForm.prefix} onChange={(e) => setPresetForm(f => ({ ...f, prefix: e.target.value }))} placeholder="Prefix, e.g. Cinematic photo of" className={inputClassName} />
+                        <input value={presetForm.suffix} onChange={(e) => setPresetForm(f => ({ ...f, suffix: e.target.value }))} placeholder="Suffix, e.g. soft light, 35mm" className={inputClassName} />
+                        <input value={presetForm.negative} onChange={(e) => setPresetForm(f => ({ ...f, negative: e.target.value }))} placeholder="Negative, e.g. text, watermark" className={inputClassName} />
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => { setIsAddingPreset(false); setPresetForm(EMPTY_PRESET_FORM); }} className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors">Cancel</button>
+                            <button onClick={handleSavePreset} disabled={!presetForm.name.trim()} className="px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:bg-indigo-800 disabled:cursor-not-allowed">Save Preset</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+            {preview && (template.trim() || selectedPreset) && (
+                <div className="md:col-span-2 text-xs rounded-lg bg-black/20 p-3">
+                    <p className="text-gray-500 mb-1">Preview for row <span className="font-mono">{previewRow!.id}</span>:</p>
+                    <p className="text-gray-300 font-mono break-words">{preview.prompt}</p>
+                    {preview.negativePrompt && <p className="text-gray-500 font-mono break-words mt-1">Negative: {preview.negativePrompt}</p>}
+                    {preview.missing.length > 0 && (
+                        <p className="text-red-400 mt-1">No value for: {preview.missing.map(name => `{${name}}`).join(', ')}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromptTemplateSettings;
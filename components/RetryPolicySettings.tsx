@@ -0,0 +1,45 @@
+import React from 'react';
+import { ErrorCategory, RetryPolicy } from '../types';
+import { ERROR_CATEGORY_LABELS } from '../services/retryPolicy';
+import { RetryIcon } from './icons';
+
+interface RetryPolicySettingsProps {
+    policy: RetryPolicy;
+    onChange: (policy: RetryPolicy) => void;
+    disabled: boolean;
+}
+
+// Failures that can succeed on a second try; the others would fail the same way again.
+const RETRYABLE_CATEGORIES: ErrorCategory[] = ['network', 'server', 'rate_limit', 'unknown'];
+
+const RetryPolicySettings: React.FC<RetryPolicySettingsProps> = ({ policy, onChange, disabled }) => {
+    const toggleCategory = (category: ErrorCategory) => {
+        const retryOn = policy.retryOn.includes(category)
+            ? policy.retryOn.filter(c => c !== category)
+            : [...policy.retryOn, category];
+        onChange({ ...policy, retryOn });
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm"><RetryIcon className="w-5 h-5" /> Automatic Retries</label>
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="number" min="1" max="10" value={policy.maxAttempts} onChange={(e) => onChange({ ...policy, maxAttempts: Math.min(10, Math.max(1, Number(e.target.value))) })} disabled={disabled} className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-50" title="Total attempts per image, including the first" />
+                attempts, starting at
+                <input type="number" min="0" step="0.5" value={policy.baseDelayMs / 1000} onChange={(e) => onChange({ ...policy, baseDelayMs: Math.max(0, Number(e.target.value)) * 1000 })} disabled={disabled} className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-50" title="Initial backoff; doubles after every failed attempt" />
+                s
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {RETRYABLE_CATEGORIES.map(category => (
+                    <label key={category} className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={policy.retryOn.includes(category)} onChange={() => toggleCategory(category)} disabled={disabled} className="accent-indigo-600" />
+                        {ERROR_CATEGORY_LABELS[category]}
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">Waits a random time up to the doubled delay (max {Math.round(policy.maxDelayMs / 1000)}s) between attempts. Safety blocks and invalid keys are never retried.</p>
+        </div>
+    );
+};
+
+export default RetryPolicySettings;
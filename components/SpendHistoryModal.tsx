@@ -0,0 +1,73 @@
+import React from 'react';
+import { SpendEntry } from '../types';
+import { MODELS } from '../services/providers';
+import { formatUsd } from '../services/pricing';
+import { SpendTotal, summarizeSpend } from '../services/spendHistory';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface SpendHistoryModalProps {
+    history: SpendEntry[];
+    onClose: () => void;
+    onReset: () => void;
+}
+
+const RECENT_DAYS = 14;
+
+const SpendTable: React.FC<{ title: string, totals: SpendTotal[] }> = ({ title, totals }) => (
+    <div>
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">{title}</h3>
+        <table className="w-full text-sm">
+            <tbody>
+                {totals.map(total => (
+                    <tr key={total.label} className="border-t border-gray-700">
+                        <td className="py-1.5 pr-4 text-gray-300 font-mono truncate max-w-0 w-full" title={total.label}>{total.label}</td>
+                        <td className="py-1.5 pr-4 text-gray-400 text-right whitespace-nowrap">{total.images} img</td>
+                        <td className="py-1.5 text-white text-right whitespace-nowrap">{formatUsd(total.cost)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const SpendHistoryModal: React.FC<SpendHistoryModalProps> = ({ history, onClose, onReset }) => {
+    const total = history.reduce((sum, entry) => sum + entry.cost, 0);
+    const byDay = summarizeSpend(history, entry => entry.date)
+        .sort((a, b) => b.label.localeCompare(a.label))
+        .slice(0, RECENT_DAYS);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <CloseIcon className="w-6 h-6" />
+                </button>
+                <div className="p-8">
+                    <h2 className="text-2xl font-bold text-white mb-2">Spend History</h2>
+                    <p className="text-gray-400 mb-6">
+                        <span className="text-white font-bold">{formatUsd(total)}</span> across all runs in this browser, at list prices per image. Translation and preprocessing calls are not counted.
+                    </p>
+
+                    {history.length === 0 ? (
+                        <p className="text-gray-500">Nothing has been spent yet.</p>
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <SpendTable title="By Provider" totals={summarizeSpend(history, entry => entry.provider)} />
+                            <SpendTable title="By Model" totals={summarizeSpend(history, entry => MODELS[entry.model]?.name ?? entry.model)} />
+                            <SpendTable title="By Key" totals={summarizeSpend(history, entry => `${entry.provider} ${entry.keyLabel}`)} />
+                            <SpendTable title={`Last ${RECENT_DAYS} Days`} totals={byDay} />
+                        </div>
+                    )}
+
+                    <div className="mt-8 flex justify-end">
+                        <button onClick={onReset} disabled={history.length === 0} className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-red-800 hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                            <TrashIcon className="w-4 h-4" /><span>Clear History</span>
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpendHistoryModal;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ShieldIcon } from './icons';
+
+interface VaultUnlockScreenProps {
+    // True for a vault file that was just imported and is not saved yet.
+    isImported: boolean;
+    onUnlock: (passphrase: string) => Promise<void>;
+    onCancel: () => void;
+}
+
+const VaultUnlockScreen: React.FC<VaultUnlockScreenProps> = ({ isImported, onUnlock, onCancel }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase) return;
+        setIsUnlocking(true);
+        setError('');
+        try {
+            await onUnlock(passphrase);
+        } catch (err: any) {
+            setError(err?.message ?? 'Could not unlock the vault.');
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
+            <div className="w-full max-w-lg p-8 space-y-6 bg-gray-800 rounded-2xl shadow-lg border border-gray-700">
+                <div className="text-center">
+                    <ShieldIcon className="w-10 h-10 text-indigo-400 mx-auto mb-3" />
+                    <h1 className="text-3xl font-bold text-white">{isImported ? 'Import Key Vault' : 'Unlock Your Keys'}</h1>
+                    <p className="mt-2 text-gray-400">
+                        {isImported ? 'Enter the passphrase this vault was created with.' : 'Your API keys are encrypted. Enter your vault passphrase to continue.'}
+                    </p>
+                </div>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        autoFocus
+                        placeholder="Vault passphrase"
+                        className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <button
+                        type="submit"
+                        disabled={!passphrase || isUnlocking}
+                        className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition duration-200 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+                    >
+                        {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                    </button>
+                </form>
+                <button onClick={onCancel} className="w-full text-sm text-gray-400 hover:text-white transition-colors">
+                    {isImported ? 'Cancel import' : 'Forgot passphrase? Delete the vault and start over'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VaultUnlockScreen;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { GenerationMetadata, ImageResult, ImageVariant } from '../types';
+import { MODELS } from '../services/providers';
+import { getChosenVariant } from '../services/results';
+import { CloseIcon, RetryIcon } from './icons';
+
+interface VersionHistoryModalProps {
+    result: ImageResult;
+    onClose: () => void;
+    onRevert: (id: string, versionIndex: number) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const VersionDetails: React.FC<{ title: string, prompt: string, variant: ImageVariant | null, generation?: GenerationMetadata, createdAt?: number }> = ({ title, prompt, variant, generation, createdAt }) => (
+    <div className="flex flex-col gap-2 min-w-0">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">{title}</h3>
+        <div className="aspect-square bg-gray-900 rounded-lg flex items-center justify-center overflow-hidden">
+            {variant
+                ? <img src={variant.imageUrl} alt={prompt} className="w-full h-full object-contain" />
+                : <p className="text-sm text-gray-500">No image</p>}
+        </div>
+        <dl className="text-xs space-y-1">
+            <div><dt className="inline text-gray-500">Prompt: </dt><dd className="inline text-gray-300 break-words">{prompt}</dd></div>
+            {generation?.editInstruction && (
+                <div><dt className="inline text-gray-500">Edit: </dt><dd className="inline text-gray-300 break-words">{generation.editInstruction}</dd></div>
+            )}
+            {generation && (
+                <div><dt className="inline text-gray-500">Model: </dt><dd className="inline text-gray-300">{MODELS[generation.model]?.name ?? generation.model}, {generation.aspectRatio}{generation.seed !== undefined ? `, seed ${generation.seed}` : ''}</dd></div>
+            )}
+            {createdAt !== undefined && (
+                <div><dt className="inline text-gray-500">Created: </dt><dd className="inline text-gray-300">{formatTime(createdAt)}</dd></div>
+            )}
+        </dl>
+    </div>
+);
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ result, onClose, onRevert }) => {
+    const history = result.history ?? [];
+    const [requestedIndex, setSelectedIndex] = useState(history.length - 1);
+    // Reverting can shorten the list, so keep the selection in range.
+    const selectedIndex = Math.min(requestedIndex, history.length - 1);
+    const selected = history[selectedIndex];
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors">
+                    <CloseIcon className="w-6 h-6" />
+                </button>
+                <div className="p-8">
+                    <h2 className="text-2xl font-bold text-white mb-2">Version History</h2>
+                    <p className="text-gray-400 mb-6">Compare earlier versions of image <span className="font-mono bg-gray-700 px-1.5 py-0.5 rounded">{result.id}</span> with the current one and restore any of them.</p>
+
+                    {history.length === 0 ? (
+                        <p className="text-gray-500">This image has no earlier versions.</p>
+                    ) : (
+                        <>
+                            <div className="flex gap-2 overflow-x-auto pb-2 mb-6">
+                                {history.map((version, index) => {
+                                    const thumbnail = version.variants[version.chosenVariant] ?? version.variants[0];
+                                    return (
+                                        <button
+                                            key={index}
+                                            onClick={() => setSelectedIndex(index)}
+                                            title={`Version ${index + 1} - ${formatTime(version.createdAt)}`}
+                                            className={`flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden bg-gray-900 border-2 transition-colors ${index === selectedIndex ? 'border-indigo-500' : 'border-transparent hover:border-gray-500'}`}
+                                        >
+                                            {thumbnail
+                                                ? <img src={thumbnail.imageUrl} alt={`Version ${index + 1}`} className="w-full h-full object-cover" />
+                                                : <span className="text-xs text-gray-500">v{index + 1}</span>}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+
+                            {selected && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                    <VersionDetails
+                                        title={`Version ${selectedIndex + 1}`}
+                                        prompt={selected.prompt}
+                                        variant={selected.variants[selected.chosenVariant] ?? selected.variants[0] ?? null}
+                                        generation={selected.generation}
+                                        createdAt={selected.createdAt}
+                                    />
+                                    <VersionDetails
+                                        title="Current"
+                                        prompt={result.prompt}
+                                        variant={getChosenVariant(result)}
+                                        generation={result.generation}
+                                        createdAt={result.generation?.generatedAt}
+                                    />
+                                </div>
+                            )}
+
+                            <div className="mt-6 flex justify-end">
+                                <button
+                                    onClick={() => onRevert(result.id, selectedIndex)}
+                                    disabled={!selected || result.status === 'generating'}
+                                    className="flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold transition-colors disabled:bg-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    <RetryIcon className="w-5 h-5" />
+                                    <span>Revert to this version</span>
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VersionHistoryModal;
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { CloseIcon, TrashIcon, TargetIcon } from './icons';
-import { Provider } from '../types';
+import { KeyHealth, Provider } from '../types';
+import { KeyUsage } from '../services/keyScheduler';
+import { EMPTY_KEY_HEALTH } from '../services/keyHealth';
+import { getKeyLabel } from '../services/spendHistory';
+import { getCredentialName, PROVIDER_INFO } from '../services/providers';
 
 interface ViewKeysModalProps {
     keys: string[];
@@ -12,13 +16,14 @@ interface ViewKeysModalProps {
     onSelectKey: (index: number) => void;
     onSetAutomatic: () => void;
     provider: Provider;
+    health: Record<string, KeyHealth>;
+    // Parallel to `keys`.
+    usage: KeyUsage[];
+    testModelName: string;
+    onTestKey: (key: string) => Promise<void>;
+    onSetKeyEnabled: (key: string, enabled: boolean) => void;
 }
 
-const PROVIDER_NAMES = {
-    google: 'Google AI',
-    openai: 'OpenAI'
-};
-
 const ViewKeysModal: React.FC<ViewKeysModalProps> = ({ 
     keys, 
     onClose, 
@@ -28,10 +33,17 @@ const ViewKeysModal: React.FC<ViewKeysModalProps> = ({
     isManualSelection,
     onSelectKey,
     onSetAutomatic,
-    provider
+    provider,
+    health,
+    usage,
+    testModelName,
+    onTestKey,
+    onSetKeyEnabled,
 }) => {
     const [newKeyInput, setNewKeyInput] = useState('');
-    const providerName = PROVIDER_NAMES[provider];
+    const [testingKeys, setTestingKeys] = useState<string[]>([]);
+    const { name: providerName, credential, hint } = PROVIDER_INFO[provider];
+    const credentialName = getCredentialName(provider);
 
     const handleAddKey = () => {
         if (newKeyInput.trim()) {
@@ -46,9 +58,23 @@ const ViewKeysModal: React.FC<ViewKeysModalProps> = ({
         }
     };
 
-    const maskKey = (key: string) => {
-        if (key.length <= 8) return '****';
-        return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
+    const handleTestKey = async (key: string) => {
+        setTestingKeys(prev => [...prev, key]);
+        try {
+            await onTestKey(key);
+        } finally {
+            setTestingKeys(prev => prev.filter(k => k !== key));
+        }
+    };
+
+    const describeUsage = (stats: KeyHealth, keyUsage: KeyUsage | undefined) => {
+        const parts = [`${stats.requests} requests`, `${stats.successes} ok`];
+        if (stats.rateLimited > 0) parts.push(`${stats.rateLimited} rate-limited`);
+        if (stats.failures > 0) parts.push(`${stats.failures} failed`);
+        if (stats.lastUsedAt) parts.push(`last used ${new Date(stats.lastUsedAt).toLocaleTimeString()}`);
+        if (keyUsage?.remainingToday !== null && keyUsage?.remainingToday !== undefined) parts.push(`~${keyUsage.remainingToday} left today`);
+        if (keyUsage && keyUsage.cooldownUntil > Date.now()) parts.push(`cooling down ${Math.ceil((keyUsage.cooldownUntil - Date.now()) / 1000)}s`);
+        return parts.join(' · ');
     };
 
     return (
@@ -58,42 +84,79 @@ const ViewKeysModal: React.FC<ViewKeysModalProps> = ({
                     <CloseIcon className="w-6 h-6" />
                 </button>
                 <div className="p-8">
-                    <h2 className="text-2xl font-bold text-white mb-6">Manage {providerName} API Keys</h2>
+                    <h2 className="text-2xl font-bold text-white mb-6">Manage {providerName} {credentialName}s</h2>
                     
                     <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">Danh sách API Key</h3>
-                    <div className="max-h-60 overflow-y-auto pr-2 space-y-2 rounded-lg bg-black/20 p-2">
+                    <div className="max-h-80 overflow-y-auto pr-2 space-y-2 rounded-lg bg-black/20 p-2">
                         {keys.length > 0 ? (
-                            keys.map((key, index) => (
-                                <div key={index} className={`flex items-center justify-between p-3 rounded-lg transition-colors ${index === activeKeyIndex ? 'bg-gray-900' : 'bg-gray-900/50'}`}>
-                                    <span className={`font-mono truncate ${index === activeKeyIndex ? 'text-indigo-300' : 'text-gray-300'}`} title={key}>{maskKey(key)}</span>
-                                    
-                                    <div className="flex items-center gap-3 flex-shrink-0">
-                                        {index === activeKeyIndex && (
-                                             <span className="text-xs font-medium bg-green-900/50 text-green-300 px-2.5 py-1 rounded-full">
-                                                Đang hoạt động
-                                             </span>
+                            keys.map((key, index) => {
+                                const stats = health[key] ?? EMPTY_KEY_HEALTH;
+                                const isDisabled = !!usage[index]?.disabled;
+                                const isTesting = testingKeys.includes(key);
+                                return (
+                                    <div key={index} className={`p-3 rounded-lg transition-colors ${index === activeKeyIndex ? 'bg-gray-900' : 'bg-gray-900/50'} ${isDisabled ? 'opacity-70' : ''}`}>
+                                        <div className="flex items-center justify-between">
+                                            <span className={`font-mono truncate ${index === activeKeyIndex ? 'text-indigo-300' : 'text-gray-300'}`} title={key}>{getKeyLabel(provider, key)}</span>
+                                        
+                                            <div className="flex items-center gap-3 flex-shrink-0">
+                                                {isDisabled ? (
+                                                    <span className="text-xs font-medium bg-red-900/50 text-red-300 px-2.5 py-1 rounded-full" title={stats.disabledReason}>
+                                                        Disabled
+                                                    </span>
+                                                ) : index === activeKeyIndex && (
+                                                     <span className="text-xs font-medium bg-green-900/50 text-green-300 px-2.5 py-1 rounded-full">
+                                                        Đang hoạt động
+                                                     </span>
+                                                )}
+                                                <button
+                                                    onClick={() => handleTestKey(key)}
+                                                    disabled={isTesting}
+                                                    title={`Check that this ${credentialName.toLowerCase()} can use ${testModelName}; no image is generated`}
+                                                    className="px-3 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                                >
+                                                    {isTesting ? 'Testing...' : 'Test'}
+                                                </button>
+                                                <button
+                                                    onClick={() => onSetKeyEnabled(key, isDisabled)}
+                                                    title={isDisabled ? 'Put this key back into rotation' : 'Stop using this key'}
+                                                    className="px-3 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded-md transition-colors"
+                                                >
+                                                    {isDisabled ? 'Enable' : 'Disable'}
+                                                </button>
+                                                {isManualSelection && index !== activeKeyIndex && (
+                                                     <button
+                                                        onClick={() => onSelectKey(index)}
+                                                        title="Use this key"
+                                                        className="px-3 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded-md transition-colors"
+                                                    >
+                                                        Select
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={() => onRemoveKey(key)}
+                                                    title="Remove Key"
+                                                    className="p-2 text-gray-500 hover:text-red-400 rounded-full transition-colors"
+                                                >
+                                                    <TrashIcon className="w-5 h-5" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1">{describeUsage(stats, usage[index])}</p>
+                                        {stats.lastTest && (
+                                            <p className={`text-xs mt-1 truncate ${stats.lastTest.ok ? 'text-green-400' : 'text-red-400'}`} title={stats.lastTest.message}>
+                                                Test {new Date(stats.lastTest.at).toLocaleTimeString()}: {stats.lastTest.ok ? `OK for ${testModelName}` : stats.lastTest.message}
+                                            </p>
                                         )}
-                                        {isManualSelection && index !== activeKeyIndex && (
-                                             <button
-                                                onClick={() => onSelectKey(index)}
-                                                title="Use this key"
-                                                className="px-3 py-1 text-xs bg-gray-700 hover:bg-indigo-600 text-white rounded-md transition-colors"
-                                            >
-                                                Select
-                                            </button>
+                                        {(stats.disabledReason || stats.lastError) && (
+                                            <p className="text-xs text-red-300/80 mt-1 truncate" title={stats.disabledReason ?? stats.lastError}>
+                                                {stats.disabledReason ? `Disabled: ${stats.disabledReason}` : `Last error: ${stats.lastError}`}
+                                            </p>
                                         )}
-                                        <button
-                                            onClick={() => onRemoveKey(key)}
-                                            title="Remove Key"
-                                            className="p-2 text-gray-500 hover:text-red-400 rounded-full transition-colors"
-                                        >
-                                            <TrashIcon className="w-5 h-5" />
-                                        </button>
                                     </div>
-                                </div>
-                            ))
+                                );
+                            })
                         ) : (
-                            <p className="text-center text-gray-500 py-4">No {providerName} API keys have been added yet.</p>
+                            <p className="text-center text-gray-500 py-4">No {providerName} {credentialName.toLowerCase()}s have been added yet.</p>
                         )}
                     </div>
                      {isManualSelection && (
@@ -102,14 +165,14 @@ const ViewKeysModal: React.FC<ViewKeysModalProps> = ({
                         </button>
                     )}
 
-                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3 mt-8">{providerName} API Key</h3>
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3 mt-8">{providerName} {credentialName}</h3>
                     <div className="flex items-center gap-2">
                          <input
-                            type="password"
+                            type={{ apiKey: 'password', baseUrl: 'url', mockKey: 'text' }[credential]}
                             value={newKeyInput}
                             onChange={(e) => setNewKeyInput(e.target.value)}
                             onKeyPress={handleInputKeyPress}
-                            placeholder={`Paste your ${providerName} API Key here`}
+                            placeholder={`Paste your ${providerName} ${credentialName} here`}
                             className="flex-grow px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 font-mono"
                         />
                         <button
@@ -120,6 +183,7 @@ const ViewKeysModal: React.FC<ViewKeysModalProps> = ({
                             Thêm Key
                         </button>
                     </div>
+                    {hint && <p className="text-xs text-gray-500 mt-2">{hint}</p>}
                 </div>
             </div>
         </div>
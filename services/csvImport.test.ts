@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { AspectRatio } from '../types';
+import { buildCsvRows, importCsvData, parseCsvText } from './csvImport';
+
+describe('parseCsvText', () => {
+    it('splits rows and cells and skips blank lines', () => {
+        expect(parseCsvText('1,A cat\n\n2,"A dog, running"\n')).toEqual([
+            ['1', 'A cat'],
+            ['2', 'A dog, running'],
+        ]);
+    });
+});
+
+describe('importCsvData', () => {
+    it('joins unquoted commas back into the prompt of pasted text', () => {
+        const { hasHeader, rows, rejected } = importCsvData(parseCsvText('1,A cat, sitting, on a mat\n2,A dog'), true);
+        expect(hasHeader).toBe(false);
+        expect(rows.map(row => row.prompt)).toEqual(['A cat, sitting, on a mat', 'A dog']);
+        expect(rejected).toEqual([]);
+    });
+
+    it('ignores extra columns of uploaded files without a header', () => {
+        const { mapping, rows } = importCsvData([['1', 'A cat', 'extra']], false);
+        expect(mapping).toEqual(['id', 'prompt', 'ignore']);
+        expect(rows[0].prompt).toBe('A cat');
+    });
+
+    it('maps columns by header name and reads per-row overrides', () => {
+        const { hasHeader, mapping, rows } = importCsvData([
+            ['ID', 'Prompt', 'Aspect Ratio', 'Seed', 'Variants'],
+            ['7', 'A lighthouse', '16:9', '42', '2'],
+        ], false);
+        expect(hasHeader).toBe(true);
+        expect(mapping).toEqual(['id', 'prompt', 'aspect_ratio', 'seed', 'variants']);
+        expect(rows).toEqual([expect.objectContaining({
+            id: '7',
+            prompt: 'A lighthouse',
+            aspectRatio: AspectRatio.LANDSCAPE,
+            seed: 42,
+            variantCount: 2,
+        })]);
+    });
+
+    it('does not mistake a numeric first row for a header', () => {
+        expect(importCsvData([['1', 'prompt']], false).hasHeader).toBe(false);
+    });
+
+    it('rejects duplicate IDs, bad overrides and unknown models with their line number', () => {
+        const { rows, rejected } = importCsvData([
+            ['id', 'prompt', 'model', 'seed'],
+            ['1', 'A cat', '', ''],
+            ['1', 'Another cat', '', ''],
+            ['2', 'A dog', 'not-a-model', ''],
+            ['3', 'A bird', '', '-5'],
+        ], false);
+        expect(rows.map(row => row.id)).toEqual(['1']);
+        expect(rejected.map(({ line, reason }) => ({ line, reason }))).toEqual([
+            { line: 3, reason: 'Duplicate ID "1"' },
+            { line: 4, reason: 'Unknown model "not-a-model"' },
+            { line: 5, reason: 'Seed "-5" must be a non-negative integer' },
+        ]);
+    });
+
+    it('rejects rows that would export under a name already taken by an earlier row', () => {
+        const { rows, rejected } = importCsvData([
+            ['id', 'prompt', 'filename'],
+            ['1', 'A cat', 'cover.png'],
+            ['2', 'A dog', 'Cover'],
+            ['3', 'A bird', '4'],
+            ['4', 'A fish', ''],
+        ], false);
+        expect(rows.map(row => row.id)).toEqual(['1', '3']);
+        expect(rejected.map(({ line, reason }) => ({ line, reason }))).toEqual([
+            { line: 3, reason: 'Duplicate filename "Cover"' },
+            { line: 5, reason: 'Duplicate filename "4"' },
+        ]);
+    });
+
+    it('drops image extensions from filenames but keeps other dotted suffixes', () => {
+        const { rows } = importCsvData([
+            ['id', 'prompt', 'filename'],
+            ['1', 'A cat', 'cat.JPEG'],
+            ['2', 'A dog', 'scene.01'],
+            ['3', 'A bird', 'v1.2/final'],
+        ], false);
+        expect(rows.map(row => row.filename)).toEqual(['cat', 'scene.01', 'v1.2_final']);
+    });
+});
+
+describe('buildCsvRows', () => {
+    it('rejects every row when no column is mapped to the prompt', () => {
+        const { rows, rejected } = buildCsvRows([['1', 'A cat']], false, ['id', 'ignore']);
+        expect(rows).toEqual([]);
+        expect(rejected[0].reason).toBe('No column is mapped to ID and Prompt');
+    });
+});
@@ -0,0 +1,210 @@
+import Papa from 'papaparse';
+import { AspectRatio, CsvField, CsvRow, ModelId, RejectedCsvRow } from '../types';
+import { MODELS } from './providers';
+import { getExportName } from './results';
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+    id: 'ID',
+    prompt: 'Prompt',
+    aspect_ratio: 'Aspect Ratio',
+    model: 'Model',
+    style: 'Style',
+    negative_prompt: 'Negative Prompt',
+    seed: 'Seed',
+    filename: 'Filename',
+    variants: 'Variants',
+    ignore: 'Ignore',
+};
+
+// Header spellings recognised for each field, compared after lower-casing and trimming.
+const HEADER_ALIASES: Record<Exclude<CsvField, 'ignore'>, string[]> = {
+    id: ['id', 'stt', 'no', '#'],
+    prompt: ['prompt', 'text', 'description'],
+    aspect_ratio: ['aspect_ratio', 'aspect ratio', 'ratio', 'aspectratio'],
+    model: ['model'],
+    style: ['style'],
+    negative_prompt: ['negative_prompt', 'negative prompt', 'negative'],
+    seed: ['seed'],
+    filename: ['filename', 'file_name', 'file name', 'file'],
+    variants: ['variants', 'variant_count', 'n'],
+};
+
+const MAX_VARIANTS = 4;
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+const fieldForHeader = (header: string): CsvField => {
+    const normalized = normalizeHeader(header);
+    const match = (Object.keys(HEADER_ALIASES) as Array<Exclude<CsvField, 'ignore'>>)
+        .find(field => HEADER_ALIASES[field].includes(normalized));
+    return match ?? 'ignore';
+};
+
+/**
+ * A first row is treated as a header when its first cell is not a number and
+ * at least one cell names a known column.
+ */
+export const detectHeader = (data: string[][]): boolean => {
+    const firstRow = data[0];
+    if (!firstRow || firstRow.length === 0) return false;
+    const firstCell = firstRow[0]?.trim() ?? '';
+    if (firstCell !== '' && !isNaN(parseInt(firstCell, 10))) return false;
+    return firstRow.some(cell => fieldForHeader(cell ?? '') !== 'ignore');
+};
+
+/**
+ * Without a header the first column is the ID and the second the prompt. Extra
+ * columns are either ignored or, for pasted text, joined back into the prompt
+ * since they are usually commas inside an unquoted prompt.
+ */
+export const guessColumnMapping = (data: string[][], hasHeader: boolean, joinExtraColumnsIntoPrompt: boolean): CsvField[] => {
+    const columnCount = data.reduce((max, row) => Math.max(max, row.length), 0);
+    if (hasHeader) {
+        return Array.from({ length: columnCount }, (_, i) => fieldForHeader(data[0][i] ?? ''));
+    }
+    return Array.from({ length: columnCount }, (_, i) => {
+        if (i === 0) return 'id';
+        if (i === 1) return 'prompt';
+        return joinExtraColumnsIntoPrompt ? 'prompt' : 'ignore';
+    });
+};
+
+const findModel = (value: string): ModelId | undefined => {
+    const normalized = value.trim().toLowerCase();
+    return (Object.keys(MODELS) as ModelId[]).find(id =>
+        id === normalized || MODELS[id].name.toLowerCase() === normalized
+    );
+};
+
+const findAspectRatio = (value: string): AspectRatio | undefined =>
+    (Object.values(AspectRatio) as AspectRatio[]).find(ratio => ratio === value.trim());
+
+// Strips path separators and image extensions; the export step picks the extension.
+// Other dotted suffixes such as `scene.01` are part of the name.
+const sanitizeFilename = (value: string): string =>
+    value.trim().replace(/\.(png|jpe?g|webp|gif|avif)$/i, '').replace(/[\\/:*?"<>|]+/g, '_');
+
+const collectFields = (values: string[], headers: string[] | null): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    values.forEach((value, i) => {
+        fields[`col${i + 1}`] = value.trim();
+        const header = headers?.[i] ? normalizeHeader(headers[i]) : '';
+        if (header) fields[header] = value.trim();
+    });
+    return fields;
+};
+
+const parseRow = (values: string[], mapping: CsvField[], headers: string[] | null): CsvRow | string => {
+    const cells: Partial<Record<CsvField, string>> = {};
+    mapping.forEach((field, i) => {
+        const raw = values[i];
+        if (field === 'ignore' || raw === undefined) return;
+        if (field === 'prompt') {
+            // Several columns mapped to the prompt are joined back together with commas.
+            cells.prompt = cells.prompt === undefined ? raw : `${cells.prompt},${raw}`;
+        } else if (raw.trim() !== '') {
+            cells[field] = raw.trim();
+        }
+    });
+
+    const id = cells.id;
+    const prompt = cells.prompt?.trim();
+    if (!id) return 'Missing ID';
+    if (isNaN(parseInt(id, 10))) return `ID "${id}" is not a number`;
+    if (!prompt) return 'Missing prompt';
+
+    const row: CsvRow = { id, prompt, fields: collectFields(values, headers) };
+
+    if (cells.aspect_ratio) {
+        const aspectRatio = findAspectRatio(cells.aspect_ratio);
+        if (!aspectRatio) return `Unsupported aspect ratio "${cells.aspect_ratio}" (use ${Object.values(AspectRatio).join(', ')})`;
+        row.aspectRatio = aspectRatio;
+    }
+    if (cells.model) {
+        const model = findModel(cells.model);
+        if (!model) return `Unknown model "${cells.model}"`;
+        if (row.aspectRatio && !MODELS[model].capabilities.aspectRatios.includes(row.aspectRatio)) {
+            return `${MODELS[model].name} does not support aspect ratio ${row.aspectRatio}`;
+        }
+        row.model = model;
+    }
+    if (cells.style) row.style = cells.style;
+    if (cells.negative_prompt) row.negativePrompt = cells.negative_prompt;
+    if (cells.seed) {
+        const seed = Number(cells.seed);
+        if (!Number.isInteger(seed) || seed < 0) return `Seed "${cells.seed}" must be a non-negative integer`;
+        row.seed = seed;
+    }
+    if (cells.filename) {
+        const filename = sanitizeFilename(cells.filename);
+        if (!filename) return `Invalid filename "${cells.filename}"`;
+        row.filename = filename;
+    }
+    if (cells.variants) {
+        const variantCount = Number(cells.variants);
+        if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_VARIANTS) {
+            return `Variants "${cells.variants}" must be a whole number from 1 to ${MAX_VARIANTS}`;
+        }
+        row.variantCount = variantCount;
+    }
+    return row;
+};
+
+export const buildCsvRows = (data: string[][], hasHeader: boolean, mapping: CsvField[]): { rows: CsvRow[], rejected: RejectedCsvRow[] } => {
+    const rows: CsvRow[] = [];
+    const rejected: RejectedCsvRow[] = [];
+    const seenIds = new Set<string>();
+    // Export names are compared case-insensitively, since most file systems do.
+    const seenExportNames = new Set<string>();
+    const hasIdColumn = mapping.includes('id');
+    const hasPromptColumn = mapping.includes('prompt');
+
+    data.forEach((values, index) => {
+        if (hasHeader && index === 0) return;
+        const line = index + 1;
+        if (!hasIdColumn || !hasPromptColumn) {
+            rejected.push({ line, values, reason: 'No column is mapped to ID and Prompt' });
+            return;
+        }
+        const parsed = parseRow(values, mapping, hasHeader ? data[0] : null);
+        if (typeof parsed === 'string') {
+            rejected.push({ line, values, reason: parsed });
+        } else if (seenIds.has(parsed.id)) {
+            rejected.push({ line, values, reason: `Duplicate ID "${parsed.id}"` });
+        } else if (seenExportNames.has(getExportName(parsed).toLowerCase())) {
+            rejected.push({ line, values, reason: `Duplicate filename "${getExportName(parsed)}"` });
+        } else {
+            seenIds.add(parsed.id);
+            seenExportNames.add(getExportName(parsed).toLowerCase());
+            rows.push(parsed);
+        }
+    });
+
+    return { rows, rejected };
+};
+
+// Cells of pasted CSV text, skipping blank lines.
+export const parseCsvText = (text: string): string[][] =>
+    Papa.parse<string[]>(text, { skipEmptyLines: true }).data;
+
+export const readCsvFile = (file: File): Promise<string[][]> => new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+        skipEmptyLines: true,
+        complete: (result) => resolve(result.data),
+        error: (error: Error) => reject(error),
+    });
+});
+
+export interface CsvImport {
+    hasHeader: boolean;
+    mapping: CsvField[];
+    rows: CsvRow[];
+    rejected: RejectedCsvRow[];
+}
+
+// What newly loaded data turns into before the user adjusts the header or mapping.
+export const importCsvData = (data: string[][], joinExtraColumnsIntoPrompt: boolean): CsvImport => {
+    const hasHeader = detectHeader(data);
+    const mapping = guessColumnMapping(data, hasHeader, joinExtraColumnsIntoPrompt);
+    return { hasHeader, mapping, ...buildCsvRows(data, hasHeader, mapping) };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { ImageResult } from '../types';
+import { ArchiveOptions, buildResultsArchive } from './exportArchive';
+import { renderForProfile } from './exportProfiles';
+
+// Node's fetch decodes data URLs into Blobs that jsdom's FileReader, and so JSZip, cannot read.
+vi.mock('./imageData', () => ({
+    dataUrlToBlob: async (dataUrl: string) => new Blob([atob(dataUrl.split(',')[1])], { type: 'image/png' }),
+}));
+
+vi.mock('./exportProfiles', () => ({ renderForProfile: vi.fn() }));
+
+const options: ArchiveOptions = { includeSidecars: true, format: 'original', quality: 0.92, profiles: [] };
+
+const successfulResult = (id: string, filename?: string): ImageResult => ({
+    id,
+    prompt: `Prompt ${id}`,
+    filename,
+    variants: [{ imageUrl: `data:image/png;base64,${btoa(`image ${id}`)}`, mimeType: 'image/png' }],
+    chosenVariant: 0,
+    status: 'success',
+});
+
+const readArchive = async (results: ImageResult[]) => JSZip.loadAsync((await buildResultsArchive(results, options)).zip);
+
+describe('buildResultsArchive', () => {
+    it('adds a suffix to images whose name is already taken instead of replacing them', async () => {
+        const zip = await readArchive([successfulResult('1', 'cover'), successfulResult('2', 'Cover'), successfulResult('3', 'cover')]);
+
+        expect(await zip.file('cover.png')!.async('string')).toBe('image 1');
+        expect(await zip.file('Cover-2.png')!.async('string')).toBe('image 2');
+        expect(await zip.file('cover-3.png')!.async('string')).toBe('image 3');
+        expect(JSON.parse(await zip.file('Cover-2.json')!.async('string')).id).toBe('2');
+        const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+        expect(manifest.map((entry: { file: string }) => entry.file)).toEqual(['cover.png', 'Cover-2.png', 'cover-3.png']);
+    });
+
+    it('keeps the manifest from replacing the sidecar of an image named manifest', async () => {
+        const zip = await readArchive([successfulResult('1', 'manifest')]);
+
+        expect(zip.file('manifest-2.png')).not.toBeNull();
+        expect(JSON.parse(await zip.file('manifest-2.json')!.async('string')).id).toBe('1');
+        expect(JSON.parse(await zip.file('manifest.json')!.async('string'))).toEqual([expect.objectContaining({ id: '1', file: 'manifest-2.png' })]);
+    });
+
+    it('skips a profile that cannot render an image and still builds the archive', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(renderForProfile).mockRejectedValue(new Error('This browser cannot encode image/png images.'));
+        const profiles = [{ id: 'x-post', name: 'X / Twitter', width: 1600, height: 900 }];
+
+        const archive = await buildResultsArchive([successfulResult('1', 'one'), successfulResult('2', 'two')], { ...options, profiles });
+        const zip = await JSZip.loadAsync(archive.zip);
+
+        expect(renderForProfile).toHaveBeenCalledTimes(1);
+        expect(archive.warnings).toEqual(['X / Twitter (png) was skipped: This browser cannot encode image/png images.']);
+        expect(zip.file('one.png')).not.toBeNull();
+        expect(zip.file('two.png')).not.toBeNull();
+        expect(zip.file('x-post/one.png')).toBeNull();
+        expect(JSON.parse(await zip.file('manifest.json')!.async('string'))[0].profile_files).toBe('');
+    });
+});
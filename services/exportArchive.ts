@@ -0,0 +1,156 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { ExportFormat, ExportProfile, ImageResult } from '../types';
+import { MODELS } from './providers';
+import { getChosenVariant, getExportName, hasImage } from './results';
+import { encodeVariant, extensionForMimeType } from './imageConversion';
+import { renderForProfile } from './exportProfiles';
+
+export interface ArchiveOptions {
+    // Adds a `<name>.json` next to every image with that image's manifest entry.
+    includeSidecars: boolean;
+    format: ExportFormat;
+    // 0-1, used for JPEG and WebP.
+    quality: number;
+    // Each profile adds a folder with every image resized and cropped to its dimensions.
+    profiles: ExportProfile[];
+}
+
+export interface ManifestEntry {
+    id: string;
+    file: string | null;
+    mime_type: string | null;
+    profile_files: string;
+    status: ImageResult['status'];
+    error: string | null;
+    error_category: string | null;
+    attempts: number | null;
+    prompt: string;
+    expanded_prompt: string | null;
+    translated_prompt: string | null;
+    sent_prompt: string | null;
+    rewrite_count: number;
+    blocked_prompts: string;
+    negative_prompt: string | null;
+    model: string | null;
+    requested_model: string | null;
+    model_name: string | null;
+    provider: string | null;
+    aspect_ratio: string | null;
+    key_index: number | null;
+    seed: number | null;
+    cost_usd: number | null;
+    edit_instruction: string | null;
+    variant: number | null;
+    variant_count: number;
+    generated_at: string | null;
+}
+
+export const buildManifestEntry = (result: ImageResult, file: string | null, mimeType: string | null, profileFiles: string[] = []): ManifestEntry => {
+    const { generation } = result;
+    const adapter = generation ? MODELS[generation.model] : null;
+    return {
+        id: result.id,
+        file,
+        mime_type: mimeType,
+        profile_files: profileFiles.join('; '),
+        status: result.status,
+        error: result.error ?? null,
+        error_category: result.errorCategory ?? null,
+        attempts: result.attempts ?? null,
+        prompt: result.prompt,
+        expanded_prompt: result.expandedPrompt ?? null,
+        translated_prompt: result.translatedPrompt ?? null,
+        sent_prompt: generation?.sentPrompt ?? null,
+        rewrite_count: result.rewrites?.length ?? 0,
+        blocked_prompts: (result.rewrites ?? []).map(r => r.blockedPrompt).join(' | '),
+        negative_prompt: generation?.negativePrompt ?? null,
+        model: generation?.model ?? null,
+        requested_model: generation?.requestedModel ?? null,
+        model_name: adapter?.name ?? null,
+        provider: adapter?.provider ?? null,
+        aspect_ratio: generation?.aspectRatio ?? null,
+        key_index: generation?.keyIndex ?? null,
+        seed: generation?.seed ?? null,
+        cost_usd: generation?.cost ?? null,
+        edit_instruction: generation?.editInstruction ?? null,
+        variant: hasImage(result) ? result.chosenVariant + 1 : null,
+        variant_count: result.variants.length,
+        generated_at: generation ? new Date(generation.generatedAt).toISOString() : null,
+    };
+};
+
+export interface ResultsArchive {
+    zip: Blob;
+    // Profiles left out of the archive, one line each, e.g. for a format the browser cannot encode.
+    warnings: string[];
+}
+
+// Base names of the files written next to the images.
+const RESERVED_NAMES = ['manifest'];
+
+/**
+ * A base name no other entry uses yet: `name`, else `name-2`, `name-3`, ...
+ * Names are compared case-insensitively, since most file systems do.
+ */
+const claimUniqueName = (name: string, used: Set<string>): string => {
+    let unique = name;
+    for (let suffix = 2; used.has(unique.toLowerCase()); suffix++) {
+        unique = `${name}-${suffix}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+};
+
+/**
+ * Zips the chosen image of every successful result together with a
+ * `manifest.csv` and `manifest.json` describing every result, failures
+ * included, so images can be matched back to their source rows. Images
+ * whose name is already taken get a numeric suffix instead of replacing an
+ * earlier file. A profile that cannot render an image type is skipped for
+ * that type and reported in `warnings`, so the rest of the archive still builds.
+ */
+export const buildResultsArchive = async (results: ImageResult[], options: ArchiveOptions): Promise<ResultsArchive> => {
+    const zip = new JSZip();
+    const manifest: ManifestEntry[] = [];
+    const usedNames = new Set(RESERVED_NAMES);
+    // Keyed by profile and image type, so a failing combination is only tried once.
+    const skippedProfiles = new Map<string, string>();
+
+    for (const result of results) {
+        const variant = hasImage(result) ? getChosenVariant(result) : null;
+        if (!variant) {
+            manifest.push(buildManifestEntry(result, null, null));
+            continue;
+        }
+
+        const { blob, mimeType } = await encodeVariant(variant, options.format, options.quality);
+        const baseName = claimUniqueName(getExportName(result), usedNames);
+        const fileName = `${baseName}.${extensionForMimeType(mimeType)}`;
+        zip.file(fileName, blob);
+
+        const profileFiles: string[] = [];
+        for (const profile of options.profiles) {
+            const skipKey = `${profile.id} ${mimeType}`;
+            if (skippedProfiles.has(skipKey)) continue;
+            const profileFile = `${profile.id}/${fileName}`;
+            try {
+                zip.file(profileFile, await renderForProfile(variant.imageUrl, profile, mimeType, options.quality));
+                profileFiles.push(profileFile);
+            } catch (error: any) {
+                console.error(`Could not render ${fileName} for the ${profile.name} profile:`, error);
+                skippedProfiles.set(skipKey, `${profile.name} (${extensionForMimeType(mimeType)}) was skipped: ${error?.message ?? 'rendering failed'}`);
+            }
+        }
+
+        const entry = buildManifestEntry(result, fileName, mimeType, profileFiles);
+        manifest.push(entry);
+        if (options.includeSidecars) {
+            zip.file(`${baseName}.json`, JSON.stringify(entry, null, 2));
+        }
+    }
+
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    zip.file('manifest.csv', Papa.unparse(manifest));
+    return { zip: await zip.generateAsync({ type: 'blob' }), warnings: [...skippedProfiles.values()] };
+};
@@ -0,0 +1,101 @@
+import { ExportProfile } from '../types';
+import { createCanvas, loadBitmap } from './imageConversion';
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+    { id: 'instagram-post', name: 'Instagram Post', width: 1080, height: 1080 },
+    { id: 'instagram-story', name: 'Instagram Story', width: 1080, height: 1920 },
+    { id: 'x-post', name: 'X / Twitter', width: 1600, height: 900 },
+    { id: 'facebook-link', name: 'Facebook Link', width: 1200, height: 630 },
+    { id: 'youtube-thumbnail', name: 'YouTube Thumbnail', width: 1280, height: 720 },
+];
+
+export const createCustomProfile = (width: number, height: number): ExportProfile => ({
+    id: `custom-${width}x${height}`,
+    name: `Custom ${width}x${height}`,
+    width,
+    height,
+});
+
+// Width of the thumbnail used to find the most detailed region of an image.
+const ANALYSIS_WIDTH = 96;
+
+const gradientEnergy = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+    const luma = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+        luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    const energy = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const dx = x + 1 < width ? luma[i + 1] - luma[i] : 0;
+            const dy = y + 1 < height ? luma[i + width] - luma[i] : 0;
+            energy[i] = Math.abs(dx) + Math.abs(dy);
+        }
+    }
+    return energy;
+};
+
+/**
+ * Picks where to place a crop window along the axis that overflows: the offset
+ * (0-1 of the slack) whose window holds the most edge detail, which tends to
+ * keep the subject in frame better than a plain centre crop.
+ */
+const findCropOffset = (bitmap: ImageBitmap, cropWidth: number, cropHeight: number): { x: number, y: number } => {
+    const slackX = bitmap.width - cropWidth;
+    const slackY = bitmap.height - cropHeight;
+    if (slackX < 1 && slackY < 1) return { x: 0, y: 0 };
+
+    const scale = ANALYSIS_WIDTH / bitmap.width;
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const { context } = createCanvas(width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+    const energy = gradientEnergy(context.getImageData(0, 0, width, height).data, width, height);
+
+    const horizontal = slackX >= 1;
+    const length = horizontal ? width : height;
+    const windowSize = Math.max(1, Math.round((horizontal ? cropWidth : cropHeight) * scale));
+    const profile = new Float32Array(length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            profile[horizontal ? x : y] += energy[y * width + x];
+        }
+    }
+
+    let windowSum = 0;
+    for (let i = 0; i < windowSize && i < length; i++) windowSum += profile[i];
+    let best = { start: 0, sum: windowSum };
+    for (let start = 1; start + windowSize <= length; start++) {
+        windowSum += profile[start + windowSize - 1] - profile[start - 1];
+        if (windowSum > best.sum) best = { start, sum: windowSum };
+    }
+
+    const offset = Math.min(best.start / scale, horizontal ? slackX : slackY);
+    return horizontal ? { x: Math.round(offset), y: 0 } : { x: 0, y: Math.round(offset) };
+};
+
+/**
+ * Scales an image to cover `profile` and crops the overflow around its most
+ * detailed region.
+ */
+export const renderForProfile = async (dataUrl: string, profile: ExportProfile, mimeType: string, quality?: number): Promise<Blob> => {
+    const bitmap = await loadBitmap(dataUrl);
+    try {
+        const targetRatio = profile.width / profile.height;
+        const cropWidth = Math.min(bitmap.width, bitmap.height * targetRatio);
+        const cropHeight = cropWidth / targetRatio;
+        const { x, y } = findCropOffset(bitmap, cropWidth, cropHeight);
+
+        const { context, toBlob } = createCanvas(profile.width, profile.height);
+        if (mimeType === 'image/jpeg') {
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, profile.width, profile.height);
+        }
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(bitmap, x, y, cropWidth, cropHeight, 0, 0, profile.width, profile.height);
+        return await toBlob(mimeType, quality);
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,79 @@
+import { ExportFormat, ImageVariant } from '../types';
+import { dataUrlToBlob } from './imageData';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+    EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'png';
+
+export const loadBitmap = async (dataUrl: string): Promise<ImageBitmap> =>
+    createImageBitmap(await dataUrlToBlob(dataUrl));
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// Browsers silently fall back to PNG for types they cannot encode.
+const requireBlobType = (type: string) => (blob: Blob): Blob => {
+    if (blob.type !== type) {
+        throw new Error(`This browser cannot encode ${type} images.`);
+    }
+    return blob;
+};
+
+/**
+ * Prefers OffscreenCanvas and falls back to a detached <canvas> where it is
+ * missing. `toBlob` rejects rather than return another type than asked for.
+ */
+export const createCanvas = (width: number, height: number): { context: Canvas2D, toBlob: (type: string, quality?: number) => Promise<Blob> } => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Could not create a 2D canvas context.');
+        return { context, toBlob: (type, quality) => canvas.convertToBlob({ type, quality }).then(requireBlobType(type)) };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not create a 2D canvas context.');
+    return {
+        context,
+        toBlob: (type, quality) => new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode image as ${type}.`)), type, quality);
+        }).then(requireBlobType(type)),
+    };
+};
+
+/**
+ * Re-encodes an image in `mimeType`. JPEG has no alpha channel, so transparent
+ * pixels are flattened onto white instead of turning black.
+ */
+export const convertImage = async (dataUrl: string, mimeType: string, quality?: number): Promise<Blob> => {
+    const bitmap = await loadBitmap(dataUrl);
+    try {
+        const { context, toBlob } = createCanvas(bitmap.width, bitmap.height);
+        if (mimeType === 'image/jpeg') {
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, bitmap.width, bitmap.height);
+        }
+        context.drawImage(bitmap, 0, 0);
+        return await toBlob(mimeType, quality);
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Returns the bytes of a variant in the requested export format, along with
+ * the MIME type actually written.
+ */
+export const encodeVariant = async (variant: ImageVariant, format: ExportFormat, quality: number): Promise<{ blob: Blob, mimeType: string }> => {
+    if (format === 'original' || format === variant.mimeType) {
+        return { blob: await dataUrlToBlob(variant.imageUrl), mimeType: variant.mimeType };
+    }
+    return { blob: await convertImage(variant.imageUrl, format, quality), mimeType: format };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { ImageVariant } from '../types';
+import { restoreVariants } from './jobStore';
+
+const stored = (count: number): ImageVariant[] =>
+    Array.from({ length: count }, () => ({ imageUrl: '', mimeType: 'image/png' }));
+
+describe('restoreVariants', () => {
+    it('keeps the chosen image selected when an earlier image is missing', () => {
+        const urls = ['', 'data:b', 'data:c'];
+        const restored = restoreVariants(stored(3), 2, index => urls[index] || undefined);
+
+        expect(restored.variants.map(v => v.imageUrl)).toEqual(['data:b', 'data:c']);
+        expect(restored.chosenVariant).toBe(1);
+    });
+
+    it('falls back to the first image when the chosen one is missing', () => {
+        const urls = ['data:a', '', 'data:c'];
+        const restored = restoreVariants(stored(3), 1, index => urls[index] || undefined);
+
+        expect(restored.variants.map(v => v.imageUrl)).toEqual(['data:a', 'data:c']);
+        expect(restored.chosenVariant).toBe(0);
+    });
+});
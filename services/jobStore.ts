@@ -0,0 +1,207 @@
+import { BatchJob, BatchJobSummary, ImageResult, ImageVariant } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from './imageData';
+
+const DB_NAME = 'ai-picture-auto';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+const IMAGES_STORE = 'images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(JOBS_STORE)) {
+                    db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+                    db.createObjectStore(IMAGES_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Current variants use their index as slot, earlier versions `h<version>:<index>`.
+const imageKey = (jobId: string, resultId: string, slot: string) => `${jobId}:${resultId}:${slot}`;
+
+const historySlotPrefix = (versionIndex: number) => `h${versionIndex}:`;
+
+// Matches every key starting with `prefix`.
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+const variantSlots = (result: ImageResult): Array<{ slot: string, variant: ImageVariant }> => [
+    ...result.variants.map((variant, index) => ({ slot: `${index}`, variant })),
+    ...(result.history ?? []).flatMap((version, v) =>
+        version.variants.map((variant, index) => ({ slot: `${historySlotPrefix(v)}${index}`, variant }))
+    ),
+];
+
+const stripVariants = (variants: ImageVariant[]): ImageVariant[] =>
+    variants.map(variant => ({ ...variant, imageUrl: '' }));
+
+// Variants are stored without their data URL; the image itself lives in IMAGES_STORE as a Blob.
+const stripImages = (result: ImageResult): ImageResult => ({
+    ...result,
+    variants: stripVariants(result.variants),
+    history: result.history?.map(version => ({ ...version, variants: stripVariants(version.variants) })),
+});
+
+const toBlobs = (result: ImageResult): Promise<Array<{ slot: string, blob: Blob }>> =>
+    Promise.all(variantSlots(result).map(async ({ slot, variant }) => ({ slot, blob: await dataUrlToBlob(variant.imageUrl) })));
+
+const replaceResultImages = (images: IDBObjectStore, jobId: string, resultId: string, blobs: Array<{ slot: string, blob: Blob }>) => {
+    images.delete(prefixRange(`${jobId}:${resultId}:`));
+    blobs.forEach(({ slot, blob }) => images.put(blob, imageKey(jobId, resultId, slot)));
+};
+
+const summarize = (job: BatchJob): BatchJobSummary => ({
+    id: job.id,
+    name: job.name,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    total: job.results.length,
+    completed: job.results.filter(r => r.status === 'success').length,
+    failed: job.results.filter(r => r.status === 'error').length,
+});
+
+export const createJobId = (): string => crypto.randomUUID();
+
+export const saveJob = async (job: BatchJob): Promise<void> => {
+    const db = await openDb();
+    const imageBlobs = await Promise.all(job.results.map(toBlobs));
+
+    const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+    const images = tx.objectStore(IMAGES_STORE);
+    tx.objectStore(JOBS_STORE).put({ ...job, results: job.results.map(stripImages) });
+    job.results.forEach((result, i) => replaceResultImages(images, job.id, result.id, imageBlobs[i]));
+    await completeTransaction(tx);
+};
+
+/**
+ * Persists results of a job. The job row is read and written in the same
+ * transaction so concurrent workers never overwrite each other's updates.
+ */
+export const saveJobResults = async (jobId: string, updates: ImageResult[]): Promise<void> => {
+    const db = await openDb();
+    const imageBlobs = await Promise.all(updates.map(toBlobs));
+
+    const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+    const jobs = tx.objectStore(JOBS_STORE);
+    const images = tx.objectStore(IMAGES_STORE);
+    const request = jobs.get(jobId) as IDBRequest<BatchJob | undefined>;
+    request.onsuccess = () => {
+        const job = request.result;
+        if (!job) return;
+        const updatesById = new Map(updates.map(r => [r.id, r]));
+        const results = job.results.map(r => {
+            const updated = updatesById.get(r.id);
+            return updated ? stripImages(updated) : r;
+        });
+        jobs.put({ ...job, results, updatedAt: Date.now() });
+        updates.forEach((result, i) => replaceResultImages(images, jobId, result.id, imageBlobs[i]));
+    };
+    await completeTransaction(tx);
+};
+
+export const saveJobResult = (jobId: string, result: ImageResult): Promise<void> => saveJobResults(jobId, [result]);
+
+// Removes results from a job together with their stored images; the source rows are kept.
+export const deleteJobResults = async (jobId: string, resultIds: string[]): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+    const jobs = tx.objectStore(JOBS_STORE);
+    const images = tx.objectStore(IMAGES_STORE);
+    const removed = new Set(resultIds);
+    const request = jobs.get(jobId) as IDBRequest<BatchJob | undefined>;
+    request.onsuccess = () => {
+        const job = request.result;
+        if (!job) return;
+        jobs.put({ ...job, results: job.results.filter(r => !removed.has(r.id)), updatedAt: Date.now() });
+        resultIds.forEach(resultId => images.delete(prefixRange(`${jobId}:${resultId}:`)));
+    };
+    await completeTransaction(tx);
+};
+
+export const listJobs = async (): Promise<BatchJobSummary[]> => {
+    const db = await openDb();
+    const tx = db.transaction(JOBS_STORE, 'readonly');
+    const jobs = await promisifyRequest(tx.objectStore(JOBS_STORE).getAll() as IDBRequest<BatchJob[]>);
+    return jobs.map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Puts the stored image data back into `variants`. Variants whose image is
+ * missing are dropped, and `chosenVariant` follows the chosen image to its new
+ * index, or falls back to the first one when the chosen image is gone.
+ */
+export const restoreVariants = (
+    variants: ImageVariant[],
+    chosenVariant: number,
+    getImageUrl: (index: number) => string | undefined
+): { variants: ImageVariant[], chosenVariant: number } => {
+    const restored: ImageVariant[] = [];
+    let chosen = 0;
+    variants.forEach((variant, index) => {
+        const imageUrl = getImageUrl(index);
+        if (!imageUrl) return;
+        if (index === chosenVariant) chosen = restored.length;
+        restored.push({ ...variant, imageUrl });
+    });
+    return { variants: restored, chosenVariant: chosen };
+};
+
+export const loadJob = async (jobId: string): Promise<BatchJob | null> => {
+    const db = await openDb();
+    const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readonly');
+    const job = await promisifyRequest(tx.objectStore(JOBS_STORE).get(jobId) as IDBRequest<BatchJob | undefined>);
+    if (!job) return null;
+
+    const imageStore = tx.objectStore(IMAGES_STORE);
+    const slots = job.results.map(variantSlots);
+    const blobs = await Promise.all(job.results.map((r, i) => Promise.all(slots[i].map(({ slot }) =>
+        promisifyRequest(imageStore.get(imageKey(jobId, r.id, slot)) as IDBRequest<Blob | undefined>)
+    ))));
+    const results = await Promise.all(job.results.map(async (r, i) => {
+        const urls = new Map<string, string>();
+        await Promise.all(slots[i].map(async ({ slot }, index) => {
+            const blob = blobs[i][index];
+            if (blob) urls.set(slot, await blobToDataUrl(blob));
+        }));
+        const getUrl = (prefix: string) => (index: number) => urls.get(`${prefix}${index}`);
+        return {
+            ...r,
+            ...restoreVariants(r.variants, r.chosenVariant, getUrl('')),
+            history: r.history?.map((version, v) => ({ ...version, ...restoreVariants(version.variants, version.chosenVariant, getUrl(historySlotPrefix(v))) })),
+        };
+    }));
+    return { ...job, results };
+};
+
+export const deleteJob = async (jobId: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([JOBS_STORE, IMAGES_STORE], 'readwrite');
+    tx.objectStore(JOBS_STORE).delete(jobId);
+    tx.objectStore(IMAGES_STORE).delete(prefixRange(`${jobId}:`));
+    await completeTransaction(tx);
+};
@@ -0,0 +1,23 @@
+import { KeyHealth, NormalizedProviderError } from '../types';
+
+export const EMPTY_KEY_HEALTH: KeyHealth = { requests: 0, successes: 0, rateLimited: 0, failures: 0 };
+
+// Folds one request outcome into a key's stats; a rejected key is marked disabled.
+export const recordKeyAttempt = (health: KeyHealth = EMPTY_KEY_HEALTH, error?: NormalizedProviderError): KeyHealth => {
+    const updated: KeyHealth = { ...health, requests: health.requests + 1, lastUsedAt: Date.now() };
+    if (!error) return { ...updated, successes: health.successes + 1 };
+    return {
+        ...updated,
+        rateLimited: health.rateLimited + (error.category === 'rate_limit' ? 1 : 0),
+        failures: health.failures + (error.category === 'rate_limit' ? 0 : 1),
+        lastError: error.message,
+        disabledReason: error.category === 'auth' ? error.message : health.disabledReason,
+    };
+};
+
+// A passing test puts a disabled key back into rotation; a rejected key is disabled.
+export const recordKeyTest = (health: KeyHealth = EMPTY_KEY_HEALTH, error?: NormalizedProviderError): KeyHealth => ({
+    ...health,
+    lastTest: { at: Date.now(), ok: !error, message: error?.message },
+    disabledReason: error ? (error.category === 'auth' ? error.message : health.disabledReason) : undefined,
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NormalizedProviderError } from '../types';
+import { classifyError } from './providers/base';
+import { createKeyScheduler, runWithScheduledKey } from './keyScheduler';
+
+const UNLIMITED = { rpm: 0, rpd: 0 };
+const normalizeError = (error: any): NormalizedProviderError => ({ message: error.message, category: classifyError(error), retryAfterMs: error.retryAfterMs });
+const rateLimited = () => Object.assign(new Error('Too many requests'), { status: 429, retryAfterMs: 60000 });
+const rejected = () => Object.assign(new Error('Invalid key'), { status: 401 });
+
+describe('runWithScheduledKey', () => {
+    it('moves on to the next key when one is rate-limited and cools the first one down', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createKeyScheduler();
+        const request = vi.fn(async (key: string) => {
+            if (key === 'key-a') throw rateLimited();
+            return `image from ${key}`;
+        });
+
+        const result = await runWithScheduledKey(scheduler, { keys: ['key-a', 'key-b'], limit: UNLIMITED, normalizeError }, request);
+
+        expect(result).toEqual({ value: 'image from key-b', keyIndex: 1 });
+        expect(request.mock.calls.map(([key]) => key)).toEqual(['key-a', 'key-b']);
+        expect(scheduler.getUsage('key-a', UNLIMITED).cooldownUntil).toBeGreaterThan(Date.now());
+    });
+
+    it('disables a rejected key and retries on another', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createKeyScheduler();
+        const onAttempt = vi.fn();
+        const request = vi.fn(async (key: string) => {
+            if (key === 'bad') throw rejected();
+            return key;
+        });
+
+        const result = await runWithScheduledKey(scheduler, { keys: ['bad', 'good'], limit: UNLIMITED, normalizeError, onAttempt }, request);
+
+        expect(result).toEqual({ value: 'good', keyIndex: 1 });
+        expect(scheduler.getUsage('bad', UNLIMITED).disabled).toBe(true);
+        expect(onAttempt).toHaveBeenCalledWith('bad', expect.objectContaining({ category: 'auth' }));
+        expect(onAttempt).toHaveBeenCalledWith('good');
+    });
+
+    it('spreads requests over keys, least recently used first', async () => {
+        const scheduler = createKeyScheduler();
+        const used: string[] = [];
+        for (let i = 0; i < 4; i++) {
+            await runWithScheduledKey(scheduler, { keys: ['a', 'b'], limit: UNLIMITED, normalizeError }, async key => {
+                used.push(key);
+                return key;
+            });
+            // Ties on the last-used timestamp go to the first key, so keep the clock moving.
+            await new Promise(resolve => setTimeout(resolve, 2));
+        }
+        expect(used).toEqual(['a', 'b', 'a', 'b']);
+    });
+
+    it('uses only the selected key in manual mode and gives up when it fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createKeyScheduler();
+        const request = vi.fn(async () => { throw rejected(); });
+
+        const result = await runWithScheduledKey(scheduler, { keys: ['a', 'b'], limit: UNLIMITED, normalizeError, onlyIndex: 1 }, request);
+
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(request).toHaveBeenCalledWith('b');
+        expect(result).toEqual({ error: expect.objectContaining({ category: 'auth' }), keyIndex: 1 });
+    });
+
+    it('cools down a key rate-limited on the last attempt', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createKeyScheduler();
+        // The first failure asks for a short wait, so the second attempt comes quickly.
+        const request = vi.fn()
+            .mockRejectedValueOnce(Object.assign(rateLimited(), { retryAfterMs: 10 }))
+            .mockRejectedValueOnce(rateLimited());
+
+        const result = await runWithScheduledKey(scheduler, { keys: ['a', 'b'], limit: UNLIMITED, normalizeError, onlyIndex: 0 }, request);
+
+        expect(request).toHaveBeenCalledTimes(2);
+        expect(result).toEqual({ error: expect.objectContaining({ category: 'rate_limit' }), keyIndex: 0 });
+        expect(scheduler.getUsage('a', UNLIMITED).cooldownUntil).toBeGreaterThan(Date.now() + 50000);
+    });
+
+    it('returns other failures without retrying', async () => {
+        const scheduler = createKeyScheduler();
+        const request = vi.fn(async () => { throw Object.assign(new Error('Boom'), { status: 500 }); });
+
+        const result = await runWithScheduledKey(scheduler, { keys: ['a', 'b'], limit: UNLIMITED, normalizeError }, request);
+
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ error: { message: 'Boom', category: 'server', retryAfterMs: undefined }, keyIndex: 0 });
+    });
+
+    it('reports a rate limit once every key has reached its daily limit', async () => {
+        const scheduler = createKeyScheduler();
+        const limit = { rpm: 0, rpd: 1 };
+        await runWithScheduledKey(scheduler, { keys: ['a'], limit, normalizeError }, async key => key);
+
+        await expect(runWithScheduledKey(scheduler, { keys: ['a'], limit, normalizeError }, async key => key))
+            .rejects.toMatchObject({ category: 'rate_limit' });
+    });
+});
+
+describe('KeyScheduler.acquire', () => {
+    it('waits for the token bucket to refill', async () => {
+        vi.useFakeTimers();
+        try {
+            const scheduler = createKeyScheduler();
+            const limit = { rpm: 1, rpd: 0 };
+            await scheduler.acquire(['a'], limit);
+
+            let acquired = false;
+            const next = scheduler.acquire(['a'], limit).then(() => { acquired = true; });
+            await vi.advanceTimersByTimeAsync(30000);
+            expect(acquired).toBe(false);
+            await vi.advanceTimersByTimeAsync(30000);
+            await next;
+            expect(acquired).toBe(true);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('refuses when every key is disabled', async () => {
+        const scheduler = createKeyScheduler();
+        scheduler.setDisabled('a', true);
+        await expect(scheduler.acquire(['a'], UNLIMITED)).rejects.toMatchObject({ category: 'auth' });
+    });
+});
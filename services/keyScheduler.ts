@@ -0,0 +1,219 @@
+import { NormalizedProviderError, Provider, RateLimit } from '../types';
+import { createProviderError } from './providers/base';
+import { sleep } from './timing';
+
+const RATE_LIMITS_STORAGE_KEY = 'ai_rate_limits';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Used when a provider reports a rate limit without saying how long to wait.
+const DEFAULT_COOLDOWN_MS = MINUTE_MS;
+
+// Conservative free-tier defaults; 0 means unlimited.
+export const DEFAULT_RATE_LIMITS: Partial<Record<Provider, RateLimit>> = {
+    google: { rpm: 10, rpd: 70 },
+    openai: { rpm: 5, rpd: 0 },
+    stability: { rpm: 150, rpd: 0 },
+    // Self-hosted servers queue requests themselves.
+    automatic1111: { rpm: 0, rpd: 0 },
+    comfyui: { rpm: 0, rpd: 0 },
+    mock: { rpm: 0, rpd: 0 },
+};
+
+const FALLBACK_RATE_LIMIT: RateLimit = { rpm: 10, rpd: 0 };
+
+export const getDefaultRateLimit = (provider: Provider): RateLimit => DEFAULT_RATE_LIMITS[provider] ?? FALLBACK_RATE_LIMIT;
+
+export const loadRateLimits = (): Partial<Record<Provider, RateLimit>> => {
+    try {
+        const stored = localStorage.getItem(RATE_LIMITS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error("Could not read rate limits:", error);
+        return {};
+    }
+};
+
+export const saveRateLimits = (limits: Partial<Record<Provider, RateLimit>>) => {
+    localStorage.setItem(RATE_LIMITS_STORAGE_KEY, JSON.stringify(limits));
+};
+
+interface KeyState {
+    // Token bucket refilled at `rpm` tokens per minute, holding at most `rpm`.
+    tokens: number;
+    lastRefill: number;
+    dayStart: number;
+    dayCount: number;
+    cooldownUntil: number;
+    lastUsed: number;
+}
+
+export interface KeyScheduler {
+    /**
+     * Waits until one of `keys` may send a request under `limit`, takes a
+     * token from it and returns its index. Keys are used least-recently-used
+     * first, so parallel workers spread over every key. With `onlyIndex`
+     * only that key is considered.
+     */
+    acquire: (keys: string[], limit: RateLimit, signal?: AbortSignal, onlyIndex?: number) => Promise<number>;
+    // Takes a key out of rotation until the provider's Retry-After has passed.
+    reportRateLimit: (key: string, retryAfterMs?: number) => void;
+    // Disabled keys are skipped by `acquire` until enabled again.
+    setDisabled: (key: string, disabled: boolean) => void;
+    getUsage: (key: string, limit: RateLimit) => KeyUsage;
+}
+
+export interface KeyUsage {
+    requestsToday: number;
+    // Null when the daily limit is unlimited.
+    remainingToday: number | null;
+    cooldownUntil: number;
+    disabled: boolean;
+}
+
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const createKeyScheduler = (): KeyScheduler => {
+    // Keyed by the API key itself so state survives keys being added or removed.
+    const states = new Map<string, KeyState>();
+    const disabledKeys = new Set<string>();
+
+    const getState = (key: string, limit: RateLimit, now: number): KeyState => {
+        let state = states.get(key);
+        if (!state) {
+            state = { tokens: limit.rpm, lastRefill: now, dayStart: now, dayCount: 0, cooldownUntil: 0, lastUsed: 0 };
+            states.set(key, state);
+        }
+        if (limit.rpm > 0) {
+            state.tokens = Math.min(limit.rpm, state.tokens + (now - state.lastRefill) * limit.rpm / MINUTE_MS);
+        }
+        state.lastRefill = now;
+        if (now - state.dayStart >= DAY_MS) {
+            state.dayStart = now;
+            state.dayCount = 0;
+        }
+        return state;
+    };
+
+    const isDailyExhausted = (state: KeyState, limit: RateLimit) => limit.rpd > 0 && state.dayCount >= limit.rpd;
+
+    // Milliseconds until the key may send its next request.
+    const getWait = (state: KeyState, limit: RateLimit, now: number): number => {
+        let wait = Math.max(0, state.cooldownUntil - now);
+        if (limit.rpm > 0 && state.tokens < 1) {
+            wait = Math.max(wait, (1 - state.tokens) * MINUTE_MS / limit.rpm);
+        }
+        return wait;
+    };
+
+    const acquire = async (keys: string[], limit: RateLimit, signal?: AbortSignal, onlyIndex?: number): Promise<number> => {
+        const candidates = (onlyIndex !== undefined ? [onlyIndex] : keys.map((_, index) => index))
+            .filter(index => !disabledKeys.has(keys[index]));
+        if (candidates.length === 0) {
+            throw createProviderError(onlyIndex !== undefined ? 'The selected API key is disabled.' : 'All API keys are disabled.', 'auth');
+        }
+        while (true) {
+            if (signal?.aborted) throw createAbortError();
+            const now = Date.now();
+            let best: { index: number, state: KeyState, wait: number } | null = null;
+            for (const index of candidates) {
+                const state = getState(keys[index], limit, now);
+                if (isDailyExhausted(state, limit)) continue;
+                const wait = getWait(state, limit, now);
+                if (!best || wait < best.wait || (wait === best.wait && state.lastUsed < best.state.lastUsed)) {
+                    best = { index, state, wait };
+                }
+            }
+            if (!best) {
+                throw createProviderError(onlyIndex !== undefined
+                    ? 'The selected API key has reached its daily request limit.'
+                    : 'All API keys have reached their daily request limit.', 'rate_limit');
+            }
+            if (best.wait === 0) {
+                if (limit.rpm > 0) best.state.tokens -= 1;
+                best.state.dayCount += 1;
+                best.state.lastUsed = now;
+                return best.index;
+            }
+            // Another worker may take the token first, so the choice is re-evaluated after waking.
+            await sleep(best.wait, signal);
+        }
+    };
+
+    const reportRateLimit = (key: string, retryAfterMs = DEFAULT_COOLDOWN_MS) => {
+        const state = states.get(key);
+        if (!state) return;
+        state.cooldownUntil = Math.max(state.cooldownUntil, Date.now() + retryAfterMs);
+    };
+
+    const setDisabled = (key: string, disabled: boolean) => {
+        if (disabled) disabledKeys.add(key);
+        else disabledKeys.delete(key);
+    };
+
+    const getUsage = (key: string, limit: RateLimit): KeyUsage => {
+        const state = getState(key, limit, Date.now());
+        return {
+            requestsToday: state.dayCount,
+            remainingToday: limit.rpd > 0 ? Math.max(0, limit.rpd - state.dayCount) : null,
+            cooldownUntil: state.cooldownUntil,
+            disabled: disabledKeys.has(key),
+        };
+    };
+
+    return { acquire, reportRateLimit, setDisabled, getUsage };
+};
+
+export type ScheduledRequestResult<T> =
+    | { value: T, keyIndex: number }
+    | { error: NormalizedProviderError, keyIndex: number };
+
+/**
+ * Sends `request` with a key from the scheduler. Rate-limited keys are
+ * cooled down, rejected keys are disabled, and the request is retried on the
+ * next available key, up to twice per key. Abort errors are rethrown; other
+ * failures are returned normalized. `onAttempt` sees every request's outcome.
+ */
+export const runWithScheduledKey = async <T>(
+    scheduler: KeyScheduler,
+    options: {
+        keys: string[],
+        limit: RateLimit,
+        signal?: AbortSignal,
+        onlyIndex?: number,
+        normalizeError: (error: any) => NormalizedProviderError,
+        onAttempt?: (key: string, error?: NormalizedProviderError) => void,
+    },
+    request: (apiKey: string) => Promise<T>
+): Promise<ScheduledRequestResult<T>> => {
+    const { keys, limit, signal, onlyIndex, normalizeError, onAttempt } = options;
+    const maxAttempts = (onlyIndex !== undefined ? 1 : keys.length) * 2;
+    for (let attempt = 1; ; attempt++) {
+        const keyIndex = await scheduler.acquire(keys, limit, signal, onlyIndex);
+        const key = keys[keyIndex];
+        try {
+            const value = await request(key);
+            onAttempt?.(key);
+            return { value, keyIndex };
+        } catch (error: any) {
+            if (signal?.aborted) throw createAbortError();
+            if (error?.name === 'AbortError') throw error;
+            const normalized = normalizeError(error);
+            onAttempt?.(key, normalized);
+            if (normalized.category === 'auth') {
+                console.warn(`API key at index ${keyIndex} was rejected and has been disabled.`);
+                scheduler.setDisabled(key, true);
+            }
+            // Cooled down even on the last attempt, so the next caller honours Retry-After too.
+            if (normalized.category === 'rate_limit') {
+                scheduler.reportRateLimit(key, normalized.retryAfterMs);
+            }
+            const canRetry = normalized.category === 'rate_limit' || (normalized.category === 'auth' && onlyIndex === undefined);
+            if (!canRetry || attempt >= maxAttempts) {
+                return { error: normalized, keyIndex };
+            }
+            if (normalized.category === 'rate_limit') {
+                console.warn(`API key at index ${keyIndex} is rate-limited, retrying on the next available key...`);
+            }
+        }
+    }
+};
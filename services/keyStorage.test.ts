@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyApiKeys, loadStoredApiKeys, removeStoredApiKeys, saveStoredApiKeys } from './keyStorage';
+
+describe('loadStoredApiKeys', () => {
+    it('returns null when nothing is stored', () => {
+        expect(loadStoredApiKeys()).toBeNull();
+    });
+
+    it('fills in providers missing from older saves', () => {
+        localStorage.setItem('ai_api_keys', JSON.stringify({ google: ['g1'], openai: ['o1'] }));
+        expect(loadStoredApiKeys()).toEqual({ ...createEmptyApiKeys(), google: ['g1'], openai: ['o1'] });
+    });
+
+    it.each([
+        ['a JSON array', JSON.stringify(['g1', 'g2']), ['g1', 'g2']],
+        ['a JSON string', JSON.stringify('g1'), ['g1']],
+        ['a plain string', 'g1', ['g1']],
+    ])('migrates legacy Google keys saved as %s', (_, stored, googleKeys) => {
+        localStorage.setItem('gemini_api_key', stored);
+        const expected = { ...createEmptyApiKeys(), google: googleKeys };
+        expect(loadStoredApiKeys()).toEqual(expected);
+        expect(JSON.parse(localStorage.getItem('ai_api_keys')!)).toEqual(expected);
+        expect(localStorage.getItem('gemini_api_key')).toBeNull();
+    });
+
+    it('prefers current keys over legacy ones', () => {
+        localStorage.setItem('ai_api_keys', JSON.stringify({ openai: ['o1'] }));
+        localStorage.setItem('gemini_api_key', 'g1');
+        expect(loadStoredApiKeys()?.google).toEqual([]);
+    });
+
+    it('leaves an empty legacy value alone', () => {
+        localStorage.setItem('gemini_api_key', '[]');
+        expect(loadStoredApiKeys()).toBeNull();
+        expect(localStorage.getItem('gemini_api_key')).toBe('[]');
+    });
+});
+
+describe('removeStoredApiKeys', () => {
+    it('removes current and legacy keys', () => {
+        saveStoredApiKeys({ ...createEmptyApiKeys(), openai: ['o1'] });
+        localStorage.setItem('gemini_api_key', 'g1');
+        removeStoredApiKeys();
+        expect(loadStoredApiKeys()).toBeNull();
+    });
+});
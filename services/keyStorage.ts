@@ -0,0 +1,53 @@
+import { ApiKeys } from '../types';
+import { createProviderRecord } from './providers';
+
+const API_KEYS_STORAGE_KEY = 'ai_api_keys';
+// Google keys saved before other providers were supported: a JSON array, a JSON string or a plain string.
+const LEGACY_GOOGLE_KEYS_STORAGE_KEY = 'gemini_api_key';
+
+export const createEmptyApiKeys = (): ApiKeys => createProviderRecord(() => []);
+
+export const hasAnyApiKey = (keys: ApiKeys) => Object.values(keys).some(providerKeys => providerKeys.length > 0);
+
+// Fills in providers that stored keys predate, and drops ones no longer registered.
+export const normalizeApiKeys = (keys: Partial<Record<string, string[]>>): ApiKeys =>
+    createProviderRecord(provider => keys[provider] || []);
+
+const parseLegacyGoogleKeys = (stored: string): string[] => {
+    try {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) return parsed;
+        if (typeof parsed === 'string') return [parsed];
+        return [];
+    } catch (e) {
+        return [stored]; // Plain string
+    }
+};
+
+/**
+ * The unencrypted keys, or null when none are stored. Keys in the legacy
+ * format are moved to the current one on the way.
+ */
+export const loadStoredApiKeys = (): ApiKeys | null => {
+    const storedKeys = localStorage.getItem(API_KEYS_STORAGE_KEY);
+    if (storedKeys) {
+        return normalizeApiKeys(JSON.parse(storedKeys));
+    }
+    const legacyKeys = localStorage.getItem(LEGACY_GOOGLE_KEYS_STORAGE_KEY);
+    if (!legacyKeys) return null;
+    const googleKeys = parseLegacyGoogleKeys(legacyKeys);
+    if (googleKeys.length === 0) return null;
+    const keys = { ...createEmptyApiKeys(), google: googleKeys };
+    saveStoredApiKeys(keys);
+    localStorage.removeItem(LEGACY_GOOGLE_KEYS_STORAGE_KEY);
+    return keys;
+};
+
+export const saveStoredApiKeys = (keys: ApiKeys) => {
+    localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+};
+
+export const removeStoredApiKeys = () => {
+    localStorage.removeItem(API_KEYS_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_GOOGLE_KEYS_STORAGE_KEY);
+};
@@ -0,0 +1,106 @@
+import { ApiKeys } from '../types';
+
+const VAULT_STORAGE_KEY = 'ai_api_keys_vault';
+const VAULT_FORMAT = 'ai-batch-image-key-vault';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// What is stored in localStorage and written to exported vault files.
+export interface EncryptedVault {
+    format: typeof VAULT_FORMAT;
+    version: 1;
+    iterations: number;
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+// The derived key stays in memory for the session so key changes can be re-encrypted without asking again.
+export interface VaultSession {
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+// Starts a session with a fresh salt, used when enabling the vault or changing its passphrase.
+export const createVaultSession = async (passphrase: string): Promise<VaultSession> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const sealKeys = async (session: VaultSession, keys: ApiKeys): Promise<EncryptedVault> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(keys)));
+    return {
+        format: VAULT_FORMAT,
+        version: 1,
+        iterations: session.iterations,
+        salt: session.salt,
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(data)),
+    };
+};
+
+/**
+ * Decrypts a vault. AES-GCM authenticates the data, so a wrong passphrase
+ * and a tampered file both fail here rather than yielding garbage keys.
+ */
+export const unlockVault = async (vault: EncryptedVault, passphrase: string): Promise<{ session: VaultSession, keys: Partial<ApiKeys> }> => {
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+    } catch {
+        throw new Error('Wrong passphrase, or the vault is damaged.');
+    }
+    return {
+        session: { key, salt: vault.salt, iterations: vault.iterations },
+        keys: JSON.parse(new TextDecoder().decode(plaintext)),
+    };
+};
+
+export const parseVault = (text: string): EncryptedVault => {
+    let vault: any;
+    try {
+        vault = JSON.parse(text);
+    } catch {
+        throw new Error('This is not a key vault file.');
+    }
+    const fieldsValid = ['salt', 'iv', 'data'].every(field => typeof vault?.[field] === 'string') && Number.isInteger(vault?.iterations);
+    if (vault?.format !== VAULT_FORMAT || !fieldsValid) {
+        throw new Error('This is not a key vault file.');
+    }
+    if (vault.version !== 1) {
+        throw new Error(`Unsupported key vault version ${vault.version}.`);
+    }
+    return vault;
+};
+
+export const loadStoredVault = (): EncryptedVault | null => {
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    return stored ? parseVault(stored) : null;
+};
+
+export const storeVault = (vault: EncryptedVault) => {
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+};
+
+export const removeStoredVault = () => {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+};
@@ -0,0 +1,72 @@
+import { BatchJobSettings, CsvRow, ImageResult, ModelId } from '../types';
+import { getImagePrice } from './pricing';
+import { getImageProvider, mapAspectRatio } from './providers';
+import { resolveRowSettings } from './results';
+
+export interface ComparisonCell {
+    result: ImageResult;
+    // Wall-clock time of the request, set once it finished.
+    latencyMs?: number;
+}
+
+export interface ModelComparisonStats {
+    model: ModelId;
+    wins: number;
+    // Rows with a vote where this model took part.
+    votedRows: number;
+    successes: number;
+    failures: number;
+    averageLatencyMs: number | null;
+}
+
+export const MIN_COMPARED_MODELS = 2;
+export const MAX_COMPARED_MODELS = 4;
+
+export const comparisonCellKey = (rowId: string, model: ModelId) => `${rowId}:${model}`;
+
+// Evenly spaced rows, so a sample covers the beginning, middle and end of the batch.
+export const sampleRows = <T>(rows: T[], size: number): T[] => {
+    if (size <= 0 || size >= rows.length) return rows;
+    const step = rows.length / size;
+    return Array.from({ length: size }, (_, i) => rows[Math.floor(i * step)]);
+};
+
+// Settings for one model's attempt at a row: a single image, at the closest aspect ratio the model supports.
+export const toComparisonSettings = (row: CsvRow, settings: BatchJobSettings, model: ModelId): BatchJobSettings => {
+    const resolved = resolveRowSettings(row, settings);
+    return {
+        ...resolved,
+        model,
+        aspectRatio: mapAspectRatio(getImageProvider(model), resolved.aspectRatio),
+        variantsPerPrompt: 1,
+        fallbackModels: [],
+    };
+};
+
+export const estimateComparisonCost = (rows: CsvRow[], settings: BatchJobSettings, models: ModelId[]): number =>
+    rows.reduce((sum, row) => sum + models.reduce((rowSum, model) => {
+        const { aspectRatio } = toComparisonSettings(row, settings, model);
+        return rowSum + (getImagePrice(model, aspectRatio, settings.providerOptions[model]) ?? 0);
+    }, 0), 0);
+
+export const summarizeComparison = (
+    rowIds: string[],
+    models: ModelId[],
+    cells: Record<string, ComparisonCell>,
+    votes: Record<string, ModelId>
+): ModelComparisonStats[] => models.map(model => {
+    const finished = rowIds
+        .map(rowId => cells[comparisonCellKey(rowId, model)])
+        .filter(cell => cell && (cell.result.status === 'success' || cell.result.status === 'error'));
+    const successes = finished.filter(cell => cell.result.status === 'success');
+    const latencies = successes.map(cell => cell.latencyMs).filter((ms): ms is number => ms !== undefined);
+    const votedRows = rowIds.filter(rowId => votes[rowId]);
+    return {
+        model,
+        wins: votedRows.filter(rowId => votes[rowId] === model).length,
+        votedRows: votedRows.length,
+        successes: successes.length,
+        failures: finished.length - successes.length,
+        averageLatencyMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null,
+    };
+});
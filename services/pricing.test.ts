@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AspectRatio, BatchJobSettings, CsvRow } from '../types';
+import { DEFAULT_RETRY_POLICY } from './retryPolicy';
+import { estimateBatchCost, getImagePrice } from './pricing';
+
+const settings: BatchJobSettings = {
+    model: 'openai-gpt-image-1',
+    aspectRatio: AspectRatio.SQUARE,
+    safetyLevel: 'default',
+    preprocessSteps: [],
+    sourceLanguage: 'en',
+    concurrencyLimit: 1,
+    variantsPerPrompt: 1,
+    promptTemplate: '',
+    stylePreset: null,
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    safetyRewriteAttempts: 0,
+    budgetLimit: 0,
+    fallbackModels: [],
+    providerOptions: {},
+};
+
+const rows: CsvRow[] = [{ id: '1', prompt: 'A cat' }, { id: '2', prompt: 'A dog', aspectRatio: AspectRatio.LANDSCAPE }];
+
+describe('getImagePrice', () => {
+    it('uses the list price of models with a fixed price', () => {
+        expect(getImagePrice('openai-dalle3', AspectRatio.LANDSCAPE)).toBe(0.08);
+        expect(getImagePrice('openai-dalle2', AspectRatio.LANDSCAPE)).toBeNull();
+    });
+
+    it('prices gpt-image-1 by quality, and auto as high', () => {
+        expect(getImagePrice('openai-gpt-image-1', AspectRatio.SQUARE, { quality: 'low' })).toBe(0.011);
+        expect(getImagePrice('openai-gpt-image-1', AspectRatio.SQUARE, { quality: 'medium' })).toBe(0.042);
+        expect(getImagePrice('openai-gpt-image-1', AspectRatio.SQUARE, { quality: 'high' })).toBe(0.167);
+        expect(getImagePrice('openai-gpt-image-1', AspectRatio.SQUARE)).toBe(0.167);
+    });
+});
+
+describe('estimateBatchCost', () => {
+    it('applies the provider options picked for the model', () => {
+        expect(estimateBatchCost(rows, settings).cost).toBeCloseTo(0.167 + 0.25);
+        expect(estimateBatchCost(rows, { ...settings, providerOptions: { 'openai-gpt-image-1': { quality: 'medium' } } }).cost).toBeCloseTo(0.042 + 0.063);
+    });
+});
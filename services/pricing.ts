@@ -0,0 +1,45 @@
+import { AspectRatio, BatchJobSettings, CsvRow, ImageResult, ModelId, ProviderOptionValues } from '../types';
+import { getProviderOptionValues, MODELS } from './providers';
+import { resolveRowSettings } from './results';
+
+// `options` are the provider options picked for the model; unset ones take their default.
+export const getImagePrice = (model: ModelId, aspectRatio: AspectRatio, options?: ProviderOptionValues): number | null => {
+    const adapter = MODELS[model];
+    if (!adapter) return null;
+    const price = adapter.priceFor
+        ? adapter.priceFor(aspectRatio, getProviderOptionValues(adapter, options))
+        : adapter.pricePerImage[aspectRatio];
+    return price ?? null;
+};
+
+export const formatUsd = (amount: number): string =>
+    `$${amount.toFixed(amount > 0 && amount < 1 ? 3 : 2)}`;
+
+export interface CostEstimate {
+    cost: number;
+    images: number;
+    // Images whose model has no list price for the requested aspect ratio; not included in `cost`.
+    unpricedImages: number;
+}
+
+/**
+ * List-price estimate for generating `rows` with `settings`, honouring per-row
+ * model, aspect ratio and variant overrides. Text calls for translation and
+ * preprocessing are not included.
+ */
+export const estimateBatchCost = (rows: CsvRow[], settings: BatchJobSettings): CostEstimate =>
+    rows.reduce<CostEstimate>((estimate, row) => {
+        const { model, aspectRatio, variantsPerPrompt } = resolveRowSettings(row, settings);
+        const price = getImagePrice(model, aspectRatio, settings.providerOptions[model]);
+        return price === null
+            ? { ...estimate, images: estimate.images + variantsPerPrompt, unpricedImages: estimate.unpricedImages + variantsPerPrompt }
+            : { ...estimate, images: estimate.images + variantsPerPrompt, cost: estimate.cost + price * variantsPerPrompt };
+    }, { cost: 0, images: 0, unpricedImages: 0 });
+
+// What a result has cost so far, earlier versions included.
+export const getResultSpend = (result: ImageResult): number =>
+    [result.generation, ...(result.history ?? []).map(version => version.generation)]
+        .reduce((total, generation) => total + (generation?.cost ?? 0), 0);
+
+export const getBatchSpend = (results: ImageResult[]): number =>
+    results.reduce((total, result) => total + getResultSpend(result), 0);
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREPROCESS_STEPS, loadPreprocessSteps } from './promptPipeline';
+
+describe('loadPreprocessSteps', () => {
+    it('drops the former translation step, which the prompt language setting replaced', () => {
+        localStorage.setItem('ai_preprocess_steps', JSON.stringify([
+            { id: 'translate_english', kind: 'translate_english', enabled: true },
+            { id: 'custom-1', kind: 'custom', enabled: true, name: 'Watercolor', instruction: 'Make it a watercolor.' },
+            ...DEFAULT_PREPROCESS_STEPS,
+        ]));
+
+        const steps = loadPreprocessSteps();
+
+        expect(steps.map(step => step.id)).toEqual(['custom-1', ...DEFAULT_PREPROCESS_STEPS.map(step => step.id)]);
+    });
+});
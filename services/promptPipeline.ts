@@ -0,0 +1,177 @@
+import { PreprocessStep, PreprocessStepKind } from '../types';
+import { classifyError, createProviderError } from './providers/base';
+import { TextModelClient } from './textModel';
+import { isAbortError } from './timing';
+
+const PREPROCESS_STEPS_STORAGE_KEY = 'ai_preprocess_steps';
+
+const OUTPUT_RULE = 'Your output must be ONLY the resulting prompt as a single line of text, with no extra formatting, explanation, or labels.';
+
+export const PREPROCESS_STEP_DEFINITIONS: Record<Exclude<PreprocessStepKind, 'custom'>, { name: string, description: string, instruction: string }> = {
+    anonymize_names: {
+        name: 'Anonymize names',
+        description: 'Replaces famous people with generic names.',
+        instruction: `You are a prompt sanitization expert. Your task is to identify names of real, famous people (celebrities, politicians, historical figures, etc.) in the user's prompt and replace them with a generic, non-famous, fictional first name (like Alex, Jordan, Casey).
+- Replace each unique famous name consistently with the same fictional name.
+- Do not change any other part of the prompt.
+- If no famous names are found, return the original prompt.
+
+Example 1:
+User: "A photo of Barack Obama playing basketball."
+You: "A photo of Alex playing basketball."
+
+Example 2:
+User: "Impressionist painting of a cat sleeping on a windowsill."
+You: "Impressionist painting of a cat sleeping on a windowsill."
+
+Example 3:
+User: "Taylor Swift and Travis Kelce on a date at a pizzeria."
+You: "Jordan and Casey on a date at a pizzeria."`,
+    },
+    remove_brands: {
+        name: 'Remove brands',
+        description: 'Swaps brands, logos and trademarked characters for generic descriptions.',
+        instruction: `You remove trademarks from image generation prompts.
+- Replace brand names, product names, logos and copyrighted characters with a short generic description of what they look like ("Coca-Cola can" becomes "red soda can").
+- Do not change any other part of the prompt.
+- If there is nothing to replace, return the original prompt.`,
+    },
+    scrub_profanity: {
+        name: 'Scrub profanity',
+        description: 'Removes swear words and slurs.',
+        instruction: `You clean up image generation prompts.
+- Remove profanity, slurs and crude language, or replace them with neutral wording when they carry meaning.
+- Do not change any other part of the prompt.
+- If there is nothing to clean up, return the original prompt.`,
+    },
+    enhance: {
+        name: 'Enhance prompt',
+        description: 'Adds visual detail such as lighting, composition and texture.',
+        instruction: `You improve image generation prompts.
+- Keep the subject and intent exactly as given.
+- Add concrete visual detail: setting, lighting, composition, camera or medium, colors and textures.
+- Keep the result under 80 words.`,
+    },
+};
+
+export const DEFAULT_PREPROCESS_STEPS: PreprocessStep[] = [
+    { id: 'anonymize_names', kind: 'anonymize_names', enabled: false },
+    { id: 'remove_brands', kind: 'remove_brands', enabled: false },
+    { id: 'scrub_profanity', kind: 'scrub_profanity', enabled: false },
+    { id: 'enhance', kind: 'enhance', enabled: false },
+];
+
+export const getStepName = (step: PreprocessStep): string =>
+    step.kind === 'custom' ? (step.name?.trim() || 'Custom instruction') : PREPROCESS_STEP_DEFINITIONS[step.kind].name;
+
+const getStepInstruction = (step: PreprocessStep): string =>
+    step.kind === 'custom' ? step.instruction?.trim() ?? '' : PREPROCESS_STEP_DEFINITIONS[step.kind].instruction;
+
+/**
+ * Drops steps of kinds that no longer exist, such as the former "Translate to
+ * English" step; translation is the batch's prompt language setting now, and
+ * its default, auto-detect, translates whatever that step did.
+ */
+export const normalizePreprocessSteps = (steps: PreprocessStep[]): PreprocessStep[] =>
+    steps.filter(step => step.kind === 'custom' || step.kind in PREPROCESS_STEP_DEFINITIONS);
+
+// Stored order and toggles win; built-in steps missing from storage are appended disabled.
+export const loadPreprocessSteps = (): PreprocessStep[] => {
+    try {
+        const stored = localStorage.getItem(PREPROCESS_STEPS_STORAGE_KEY);
+        if (!stored) return DEFAULT_PREPROCESS_STEPS;
+        const steps = normalizePreprocessSteps(JSON.parse(stored));
+        const missing = DEFAULT_PREPROCESS_STEPS
+            .filter(builtIn => !steps.some(s => s.id === builtIn.id))
+            .map(builtIn => ({ ...builtIn, enabled: false }));
+        return [...steps, ...missing];
+    } catch (error) {
+        console.error("Could not read prompt preprocessing steps:", error);
+        return DEFAULT_PREPROCESS_STEPS;
+    }
+};
+
+export const savePreprocessSteps = (steps: PreprocessStep[]) => {
+    localStorage.setItem(PREPROCESS_STEPS_STORAGE_KEY, JSON.stringify(steps));
+};
+
+export const getActiveSteps = (steps: PreprocessStep[]): PreprocessStep[] =>
+    steps.filter(step => step.enabled && getStepInstruction(step) !== '');
+
+const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const MAX_CACHE_ENTRIES = 1000;
+
+// Keyed by a hash of the step instruction and its input. In-flight calls are cached too,
+// so duplicate prompts processed by parallel workers share a single request.
+const stepCache = new Map<string, Promise<string>>();
+
+/**
+ * Sends `input` to Gemini with `instruction` as system instruction and returns
+ * the single-line answer, or `input` itself for an empty answer. Results are
+ * cached for the session.
+ */
+export const runCachedInstruction = async (aiInstance: TextModelClient, instruction: string, input: string, signal?: AbortSignal): Promise<string> => {
+    const cacheKey = await hashText(JSON.stringify([instruction, input]));
+    const cached = stepCache.get(cacheKey);
+    if (cached) {
+        // A shared call aborted by another caller is not our failure; ask again.
+        return cached.catch(error => {
+            if (isAbortError(error) && !signal?.aborted) return runCachedInstruction(aiInstance, instruction, input, signal);
+            throw error;
+        });
+    }
+
+    const pending = aiInstance.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: input,
+        config: {
+            systemInstruction: `${instruction}\n${OUTPUT_RULE}`,
+            temperature: 0.2,
+            abortSignal: signal,
+        },
+    }).then(response => response.text?.trim() || input);
+
+    stepCache.set(cacheKey, pending);
+    if (stepCache.size > MAX_CACHE_ENTRIES) {
+        stepCache.delete(stepCache.keys().next().value!);
+    }
+    // Failures are not cached, so the next run asks again.
+    pending.catch(() => stepCache.delete(cacheKey));
+    return pending;
+};
+
+export interface PreprocessedPrompt {
+    prompt: string;
+    // The prompt after each active step, in order.
+    stages: Array<{ stepId: string, name: string, output: string }>;
+}
+
+/**
+ * Runs the enabled steps in order, each on the previous step's output. A
+ * failing step fails the whole prompt instead of letting the unprocessed
+ * text through; the thrown error names the step and carries its category.
+ */
+export const preprocessPrompt = async (
+    aiInstance: TextModelClient,
+    prompt: string,
+    steps: PreprocessStep[],
+    signal?: AbortSignal
+): Promise<PreprocessedPrompt> => {
+    const stages: PreprocessedPrompt['stages'] = [];
+    let current = prompt;
+    for (const step of getActiveSteps(steps)) {
+        try {
+            current = await runCachedInstruction(aiInstance, getStepInstruction(step), current, signal);
+        } catch (error: any) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            console.error(`Prompt preprocessing step "${getStepName(step)}" failed:`, error);
+            throw createProviderError(`Prompt preprocessing failed at "${getStepName(step)}": ${error?.message ?? 'unknown error'}`, classifyError(error));
+        }
+        stages.push({ stepId: step.id, name: getStepName(step), output: current });
+    }
+    return { prompt: current, stages };
+};
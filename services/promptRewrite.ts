@@ -0,0 +1,45 @@
+import { PromptRewrite } from '../types';
+import { TextModelClient } from './textModel';
+
+const REWRITE_SYSTEM_INSTRUCTION = `You rewrite image generation prompts that were rejected by an image model's safety filter.
+- Keep the subject, composition, style and mood of the original prompt.
+- Remove or soften whatever is likely to trip the filter: real people's names, graphic violence, gore, nudity, weapons aimed at people, hateful or sexual wording, trademarked characters.
+- Prefer neutral, descriptive wording over euphemisms that mean the same thing.
+- If earlier rewrites are listed, they were rejected too; change more than they did.
+- Your output must be ONLY the rewritten prompt as a single line of text, with no extra formatting, explanation, or labels.`;
+
+/**
+ * Asks Gemini for a policy-compliant paraphrase of a prompt that was blocked,
+ * passing along earlier rewrites that were blocked as well. Returns null when
+ * no usable rewrite came back, so the caller keeps the original failure.
+ */
+export const rewriteBlockedPrompt = async (
+    aiInstance: TextModelClient,
+    prompt: string,
+    reason: string,
+    previousRewrites: PromptRewrite[],
+    signal?: AbortSignal
+): Promise<string | null> => {
+    const earlier = previousRewrites.map(r => `- "${r.blockedPrompt}" (${r.reason})`).join('\n');
+    const contents = earlier
+        ? `Blocked prompt: "${prompt}"\nReason: ${reason}\n\nEarlier attempts that were also blocked:\n${earlier}`
+        : `Blocked prompt: "${prompt}"\nReason: ${reason}`;
+
+    try {
+        const response = await aiInstance.generateContent({
+            model: 'gemini-2.5-flash',
+            contents,
+            config: {
+                systemInstruction: REWRITE_SYSTEM_INSTRUCTION,
+                temperature: 0.7,
+                abortSignal: signal,
+            },
+        });
+        const rewritten = response.text?.trim().replace(/^"(.*)"$/, '$1');
+        if (!rewritten || rewritten === prompt) return null;
+        return rewritten;
+    } catch (error) {
+        console.error("Prompt rewrite failed:", error);
+        return null;
+    }
+};
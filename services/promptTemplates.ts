@@ -0,0 +1,86 @@
+import { BatchJobSettings, CsvRow, StylePreset } from '../types';
+
+const STYLE_PRESETS_STORAGE_KEY = 'ai_style_presets';
+
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+    {
+        id: 'builtin-flat-vector',
+        name: 'Flat Vector',
+        prefix: '',
+        suffix: 'flat vector illustration, clean shapes, no text',
+        negative: 'photorealistic, text, watermark',
+    },
+    {
+        id: 'builtin-cinematic',
+        name: 'Cinematic Photo',
+        prefix: 'Cinematic photo of',
+        suffix: 'dramatic lighting, shallow depth of field, 35mm',
+        negative: 'cartoon, illustration, text',
+    },
+    {
+        id: 'builtin-watercolor',
+        name: 'Watercolor',
+        prefix: 'Watercolor painting of',
+        suffix: 'soft washes, paper texture',
+        negative: 'photorealistic, text',
+    },
+];
+
+export const isBuiltInPreset = (preset: StylePreset) => preset.id.startsWith('builtin-');
+
+export const loadStylePresets = (): StylePreset[] => {
+    try {
+        const stored = localStorage.getItem(STYLE_PRESETS_STORAGE_KEY);
+        const custom: StylePreset[] = stored ? JSON.parse(stored) : [];
+        return [...DEFAULT_STYLE_PRESETS, ...custom];
+    } catch (error) {
+        console.error("Could not read style presets:", error);
+        return DEFAULT_STYLE_PRESETS;
+    }
+};
+
+export const saveStylePresets = (presets: StylePreset[]) => {
+    const custom = presets.filter(preset => !isBuiltInPreset(preset));
+    localStorage.setItem(STYLE_PRESETS_STORAGE_KEY, JSON.stringify(custom));
+};
+
+const VARIABLE_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Fills `{name}` placeholders from the row. `{id}` and `{prompt}` are always
+ * available; other names are looked up case-insensitively among the row's
+ * CSV columns (`{subject}` for a "Subject" header, `{col3}` by position).
+ */
+export const expandTemplate = (template: string, row: CsvRow): { text: string, missing: string[] } => {
+    const missing: string[] = [];
+    const text = template.replace(VARIABLE_PATTERN, (placeholder, rawName: string) => {
+        const name = rawName.trim().toLowerCase();
+        const value = name === 'id' ? row.id : name === 'prompt' ? row.prompt : row.fields?.[name];
+        if (!value) {
+            missing.push(rawName.trim());
+            return placeholder;
+        }
+        return value;
+    });
+    return { text: text.trim(), missing };
+};
+
+const joinNonEmpty = (parts: Array<string | undefined>, separator: string) =>
+    parts.map(part => part?.trim()).filter(Boolean).join(separator);
+
+/**
+ * Builds the text sent to the model for a row: the template (or the raw
+ * prompt), then the row's style column, then the preset's prefix and suffix.
+ * The preset's negative text is merged with the row's negative prompt.
+ */
+export const composePrompt = (row: CsvRow, settings: Pick<BatchJobSettings, 'promptTemplate' | 'stylePreset'>): { prompt: string, negativePrompt?: string, missing: string[] } => {
+    const { text, missing } = settings.promptTemplate.trim()
+        ? expandTemplate(settings.promptTemplate, row)
+        : { text: row.prompt, missing: [] };
+    const preset = settings.stylePreset;
+
+    const styled = joinNonEmpty([text, row.style], ', ');
+    const prompt = joinNonEmpty([preset?.prefix, joinNonEmpty([styled, preset?.suffix], ', ')], ' ');
+    const negativePrompt = joinNonEmpty([row.negativePrompt, preset?.negative], ', ') || undefined;
+    return { prompt, negativePrompt, missing };
+};
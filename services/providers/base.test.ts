@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, createProviderError, isRateLimitError, parseRetryAfterMs } from './base';
+
+describe('isRateLimitError', () => {
+    it.each([
+        ['an HTTP 429', { status: 429 }],
+        ['an OpenAI rate limit', { error: { code: 'rate_limit_exceeded' } }],
+        ['a Google quota error', { error: { code: 429, status: 'RESOURCE_EXHAUSTED' } }],
+        ['a quota message', { message: 'Your quota exceeded for this model' }],
+    ])('detects %s', (_, error) => {
+        expect(isRateLimitError(error)).toBe(true);
+    });
+
+    it('ignores other failures', () => {
+        expect(isRateLimitError({ status: 500, message: 'Internal error' })).toBe(false);
+    });
+});
+
+describe('classifyError', () => {
+    it('keeps a category set by our own code', () => {
+        expect(classifyError(createProviderError('Blocked', 'safety_block'))).toBe('safety_block');
+    });
+
+    it.each([
+        [{ status: 429 }, 'rate_limit'],
+        [{ status: 401 }, 'auth'],
+        [{ message: 'API key not valid. Please pass a valid API key.' }, 'auth'],
+        [{ error: { code: 'content_policy_violation' } }, 'safety_block'],
+        [new TypeError('Failed to fetch'), 'network'],
+        [{ status: 503 }, 'server'],
+        [{ status: 400 }, 'invalid_request'],
+        [{ message: 'Something odd' }, 'unknown'],
+    ])('classifies %j as %s', (error, category) => {
+        expect(classifyError(error)).toBe(category);
+    });
+});
+
+describe('parseRetryAfterMs', () => {
+    it('reads seconds and Google retry delays', () => {
+        expect(parseRetryAfterMs('20')).toBe(20000);
+        expect(parseRetryAfterMs('37s')).toBe(37000);
+        expect(parseRetryAfterMs('0.5')).toBe(500);
+    });
+
+    it('reads HTTP dates relative to now', () => {
+        vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-01-01T00:00:00Z'));
+        expect(parseRetryAfterMs('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+    });
+
+    it('returns undefined for missing or unreadable values', () => {
+        expect(parseRetryAfterMs(null)).toBeUndefined();
+        expect(parseRetryAfterMs('soon')).toBeUndefined();
+    });
+});
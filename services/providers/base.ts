@@ -0,0 +1,63 @@
+import { ErrorCategory, ImageProviderAdapter } from '../../types';
+
+export const SAFETY_BLOCK_MESSAGE = 'No image was returned from the API. This is often caused by safety filters. Try rewriting the prompt.';
+
+/**
+ * Identity helper that keeps the literal `id` and `provider` of an adapter,
+ * so the `ModelId` and `Provider` unions can be derived from the registry.
+ */
+export const defineImageProvider = <const Id extends string, const P extends string>(
+    adapter: ImageProviderAdapter<Id, P>
+): ImageProviderAdapter<Id, P> => adapter;
+
+export const isRateLimitError = (error: any): boolean => (
+    (error?.status === 429) ||
+    (error?.error?.code === 429 || error?.error?.code === 'rate_limit_exceeded') ||
+    (error?.error?.status === 'RESOURCE_EXHAUSTED') ||
+    JSON.stringify(error).includes('quota exceeded') ||
+    JSON.stringify(error).includes('billed users')
+);
+
+export const isAuthError = (error: any): boolean => (
+    (error?.status === 401 || error?.status === 403) ||
+    (error?.error?.code === 'invalid_api_key') ||
+    /API_KEY_INVALID|API key not valid|API key expired|PERMISSION_DENIED/.test(`${error?.message ?? ''} ${JSON.stringify(error) ?? ''}`)
+);
+
+// An Error that already knows its category, for failures detected by our own code.
+export const createProviderError = (message: string, category: ErrorCategory): Error =>
+    Object.assign(new Error(message), { category });
+
+const getStatusCode = (error: any): number | undefined => {
+    const status = error?.status ?? error?.error?.code;
+    return typeof status === 'number' ? status : undefined;
+};
+
+const isNetworkError = (error: any): boolean =>
+    error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+export const classifyError = (error: any): ErrorCategory => {
+    if (typeof error?.category === 'string') return error.category;
+    if (isRateLimitError(error)) return 'rate_limit';
+    if (isAuthError(error)) return 'auth';
+    if (error?.error?.code === 'content_policy_violation' || /SAFETY|PROHIBITED_CONTENT|safety system/.test(`${error?.message ?? ''} ${JSON.stringify(error) ?? ''}`)) {
+        return 'safety_block';
+    }
+    if (isNetworkError(error)) return 'network';
+    const status = getStatusCode(error);
+    if (status !== undefined && status >= 500) return 'server';
+    if (status !== undefined && status >= 400) return 'invalid_request';
+    return 'unknown';
+};
+
+/**
+ * Converts a `Retry-After` header (seconds or an HTTP date) or a Google
+ * `retryDelay` such as "37s" to milliseconds.
+ */
+export const parseRetryAfterMs = (value: string | null | undefined): number | undefined => {
+    if (!value) return undefined;
+    const seconds = parseFloat(value);
+    if (/^\s*[\d.]+s?\s*$/.test(value) && !isNaN(seconds)) return Math.ceil(seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
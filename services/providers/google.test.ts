@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, HarmBlockThreshold } from '@google/genai';
+import { AspectRatio, GenerateImageRequest } from '../../types';
+
+const generateImages = vi.fn();
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: vi.fn(() => ({ models: { generateImages, generateContent } })),
+}));
+
+const { geminiFlashImageAdapter, imagen4Adapter } = await import('./google');
+
+const request: GenerateImageRequest = {
+    prompt: 'A quiet harbour at dawn',
+    aspectRatio: AspectRatio.SQUARE,
+    apiKey: 'google-key',
+    safetyLevel: 'default',
+    count: 2,
+    options: {},
+};
+
+beforeEach(() => {
+    generateImages.mockReset();
+    generateContent.mockReset();
+});
+
+describe('Google adapters', () => {
+    it('returns every Imagen image as a JPEG data URL', async () => {
+        generateImages.mockResolvedValue({ generatedImages: [{ image: { imageBytes: 'b25l' } }, { image: { imageBytes: 'dHdv' } }] });
+
+        const images = await imagen4Adapter.generate(request);
+
+        expect(images.map(image => image.imageUrl)).toEqual(['data:image/jpeg;base64,b25l', 'data:image/jpeg;base64,dHdv']);
+        expect(generateImages).toHaveBeenCalledWith(expect.objectContaining({
+            model: 'imagen-4.0-generate-001',
+            prompt: request.prompt,
+            config: expect.objectContaining({ numberOfImages: 2, aspectRatio: '1:1' }),
+        }));
+    });
+
+    it('reports a response without images as a safety block', async () => {
+        generateImages.mockResolvedValue({ generatedImages: [] });
+
+        await expect(imagen4Adapter.generate(request)).rejects.toMatchObject({ category: 'safety_block' });
+    });
+
+    it('reads the inline image Gemini returns', async () => {
+        generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Here you go' }, { inlineData: { mimeType: 'image/png', data: 'cG5n' } }] } }] });
+
+        const images = await geminiFlashImageAdapter.generate({ ...request, seed: 7 });
+
+        expect(images).toEqual([{ imageUrl: 'data:image/png;base64,cG5n', mimeType: 'image/png' }]);
+        expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({ config: expect.objectContaining({ seed: 7 }) }));
+    });
+
+    it('applies the safety level to Gemini edits as well', async () => {
+        generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'cG5n' } }] } }] });
+
+        await geminiFlashImageAdapter.edit!({
+            instruction: 'Make it night',
+            image: { imageUrl: 'data:image/png;base64,cG5n', mimeType: 'image/png' },
+            apiKey: 'google-key',
+            safetyLevel: 'none',
+            count: 1,
+            options: {},
+        });
+
+        expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+            config: expect.objectContaining({
+                safetySettings: expect.arrayContaining([expect.objectContaining({ threshold: HarmBlockThreshold.BLOCK_NONE })]),
+            }),
+        }));
+    });
+
+    it('classifies quota errors and reads their retry delay', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const message = JSON.stringify({ error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded', details: [{ retryDelay: '37s' }] } });
+        const error = new ApiError({ message, status: 429 });
+
+        expect(imagen4Adapter.normalizeError(error)).toEqual({ message: 'Quota exceeded', category: 'rate_limit', retryAfterMs: 37000 });
+    });
+});
@@ -0,0 +1,159 @@
+import { GoogleGenAI, GenerateContentConfig, HarmCategory, HarmBlockThreshold, Modality, Part } from '@google/genai';
+import { AspectRatio, ImageVariant, NormalizedProviderError, SafetyLevel } from '../../types';
+import { classifyError, createProviderError, defineImageProvider, parseRetryAfterMs, SAFETY_BLOCK_MESSAGE } from './base';
+
+const SAFETY_SETTINGS_CONFIG: Record<Exclude<SafetyLevel, 'default'>, Array<{category: HarmCategory, threshold: HarmBlockThreshold}>> = {
+  lenient: [
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  ],
+  none: [
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  ]
+};
+
+const clients = new Map<string, GoogleGenAI>();
+
+// One SDK client per key, shared by the image adapters and the prompt helpers.
+export const getGoogleClient = (apiKey: string): GoogleGenAI => {
+    let client = clients.get(apiKey);
+    if (!client) {
+        client = new GoogleGenAI({ apiKey });
+        clients.set(apiKey, client);
+    }
+    return client;
+};
+
+const validateGoogleKey = async (apiKey: string, model: string) => {
+    await getGoogleClient(apiKey).models.get({ model });
+};
+
+const getSafetySettings = (safetyLevel: SafetyLevel) =>
+    safetyLevel === 'default' ? undefined : SAFETY_SETTINGS_CONFIG[safetyLevel];
+
+// Unlogged, for callers that report failures themselves.
+export const parseGoogleError = (error: any): NormalizedProviderError => {
+    let message: string = error?.message || 'An unknown error occurred';
+    if (typeof error === 'object' && error !== null) {
+        if (error.error?.message) {
+            message = error.error.message;
+        } else if (typeof error.message === 'string') {
+            try {
+                const parsedError = JSON.parse(error.message);
+                message = parsedError.error?.message || error.message;
+            } catch (e) { message = error.message; }
+        }
+    }
+    // Quota errors carry a RetryInfo detail like `"retryDelay": "37s"`.
+    const retryDelay = /"retryDelay":\s*"([\d.]+s)"/.exec(`${error?.message ?? ''}`)?.[1];
+    return { message, category: classifyError(error), retryAfterMs: parseRetryAfterMs(retryDelay) };
+};
+
+const normalizeGoogleError = (error: any): NormalizedProviderError => {
+    console.error('[google] Image generation error:', error);
+    return parseGoogleError(error);
+};
+
+export const imagen4Adapter = defineImageProvider({
+    id: 'google-imagen-4',
+    provider: 'google',
+    name: 'Google - Imagen 4',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+        outputMimeType: 'image/jpeg',
+        maxPromptLength: 4000,
+        maxImagesPerRequest: 4,
+        supportsSafetySettings: true,
+        supportsNegativePrompt: false,
+        supportsSeed: false,
+    },
+    pricePerImage: {
+        [AspectRatio.SQUARE]: 0.04,
+        [AspectRatio.LANDSCAPE]: 0.04,
+        [AspectRatio.PORTRAIT]: 0.04,
+    },
+    generate: async ({ prompt, aspectRatio, apiKey, safetyLevel, count, signal }) => {
+        const params = {
+            model: 'imagen-4.0-generate-001',
+            prompt,
+            config: {
+              numberOfImages: count,
+              outputMimeType: 'image/jpeg',
+              aspectRatio: aspectRatio,
+              abortSignal: signal,
+            },
+            safetySettings: getSafetySettings(safetyLevel),
+        };
+        const response = await getGoogleClient(apiKey).models.generateImages(params);
+
+        const images = (response.generatedImages ?? [])
+            .map(generated => generated.image?.imageBytes)
+            .filter((bytes): bytes is string => !!bytes);
+        if (images.length === 0) {
+            throw createProviderError(SAFETY_BLOCK_MESSAGE, 'safety_block');
+        }
+        return images.map(bytes => ({ imageUrl: `data:image/jpeg;base64,${bytes}`, mimeType: 'image/jpeg' }));
+    },
+    validateKey: (apiKey) => validateGoogleKey(apiKey, 'imagen-4.0-generate-001'),
+    normalizeError: normalizeGoogleError,
+});
+
+const toInlineData = (variant: ImageVariant) => ({
+    inlineData: { mimeType: variant.mimeType, data: variant.imageUrl.split(',')[1] },
+});
+
+const requestGeminiImage = async (apiKey: string, parts: Part[], config: GenerateContentConfig, safetyLevel: SafetyLevel = 'default') => {
+    const params = {
+        model: 'gemini-2.5-flash-image',
+        contents: { parts },
+        config: {
+            responseModalities: [Modality.IMAGE],
+            safetySettings: getSafetySettings(safetyLevel),
+            ...config,
+        },
+    };
+    const response = await getGoogleClient(apiKey).models.generateContent(params);
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => !!p.inlineData);
+    const base64ImageBytes = part?.inlineData?.data;
+    if (!base64ImageBytes) {
+        throw createProviderError(SAFETY_BLOCK_MESSAGE, 'safety_block');
+    }
+    const mimeType = part?.inlineData?.mimeType || 'image/png';
+    return [{ imageUrl: `data:${mimeType};base64,${base64ImageBytes}`, mimeType }];
+};
+
+export const geminiFlashImageAdapter = defineImageProvider({
+    id: 'google-gemini-flash-image',
+    provider: 'google',
+    name: 'Google - Gemini Flash Image',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE],
+        outputMimeType: 'image/png',
+        maxPromptLength: 8000,
+        maxImagesPerRequest: 1,
+        supportsSafetySettings: true,
+        supportsNegativePrompt: false,
+        supportsSeed: true,
+        editing: {
+            supportsMask: false,
+            supportsReferenceImage: true,
+        },
+    },
+    pricePerImage: { [AspectRatio.SQUARE]: 0.039 },
+    generate: ({ prompt, apiKey, safetyLevel, seed, signal }) =>
+        requestGeminiImage(apiKey, [{ text: prompt }], { seed, abortSignal: signal }, safetyLevel),
+    edit: ({ instruction, image, referenceImage, apiKey, safetyLevel, signal }) => {
+        const parts: Part[] = [toInlineData(image)];
+        if (referenceImage) parts.push(toInlineData(referenceImage));
+        parts.push({ text: referenceImage ? `${instruction}\n\nThe first image is the one to edit; use the second image only as a reference.` : instruction });
+        return requestGeminiImage(apiKey, parts, { abortSignal: signal }, safetyLevel);
+    },
+    validateKey: (apiKey) => validateGoogleKey(apiKey, 'gemini-2.5-flash-image'),
+    normalizeError: normalizeGoogleError,
+});
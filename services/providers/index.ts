@@ -0,0 +1,88 @@
+import { AspectRatio, ImageProviderAdapter, ModelId, Provider, ProviderInfo, ProviderOptionValues } from '../../types';
+import { dalle2Adapter, dalle3Adapter, gptImage1Adapter } from './openai';
+import { geminiFlashImageAdapter, imagen4Adapter } from './google';
+import { stableImageCoreAdapter, stableImageUltraAdapter } from './stability';
+import { automatic1111Adapter, comfyUiAdapter } from './selfHosted';
+import { mockAdapter } from './mock';
+
+export { getGoogleClient } from './google';
+export { classifyError } from './base';
+
+// Registration order is the order models appear in the model picker.
+export const IMAGE_PROVIDERS = [
+    dalle3Adapter,
+    gptImage1Adapter,
+    imagen4Adapter,
+    geminiFlashImageAdapter,
+    dalle2Adapter,
+    stableImageCoreAdapter,
+    stableImageUltraAdapter,
+    automatic1111Adapter,
+    comfyUiAdapter,
+    mockAdapter,
+] as const;
+
+export const MODELS = Object.fromEntries(
+    IMAGE_PROVIDERS.map(adapter => [adapter.id, adapter])
+) as Record<ModelId, ImageProviderAdapter>;
+
+export const getImageProvider = (modelId: ModelId): ImageProviderAdapter => MODELS[modelId];
+
+export const PROVIDERS = Array.from(new Set(IMAGE_PROVIDERS.map(adapter => adapter.provider))) as Provider[];
+
+export const PROVIDER_INFO: Record<Provider, ProviderInfo> = {
+    google: { name: 'Google AI', credential: 'apiKey', helpUrl: 'https://aistudio.google.com/app/apikey' },
+    openai: { name: 'OpenAI', credential: 'apiKey', helpUrl: 'https://platform.openai.com/api-keys' },
+    stability: { name: 'Stability AI', credential: 'apiKey', helpUrl: 'https://platform.stability.ai/account/keys' },
+    automatic1111: {
+        name: 'Automatic1111',
+        credential: 'baseUrl',
+        helpUrl: 'https://github.com/AUTOMATIC1111/stable-diffusion-webui/wiki/API',
+        hint: 'e.g. http://127.0.0.1:7860, started with --api and --cors-allow-origins set to this page\'s address',
+    },
+    comfyui: {
+        name: 'ComfyUI',
+        credential: 'baseUrl',
+        helpUrl: 'https://docs.comfy.org/development/comfyui-server/comms_routes',
+        hint: 'e.g. http://127.0.0.1:8188, started with --enable-cors-header',
+    },
+    mock: {
+        name: 'Mock',
+        credential: 'mockKey',
+        hint: '"demo" always succeeds; "demo:429", "demo:safety", "demo:500" or "demo:timeout" always fail that way, and "demo:429:0.3" fails 30% of the time.',
+    },
+};
+
+const CREDENTIAL_NAMES: Record<ProviderInfo['credential'], string> = {
+    apiKey: 'API Key',
+    baseUrl: 'Server URL',
+    mockKey: 'Mock Key',
+};
+
+export const getCredentialName = (provider: Provider): string => CREDENTIAL_NAMES[PROVIDER_INFO[provider].credential];
+
+// Builds an object with one entry per registered provider, e.g. an empty `ApiKeys`.
+export const createProviderRecord = <T>(createValue: (provider: Provider) => T): Record<Provider, T> =>
+    Object.fromEntries(PROVIDERS.map(provider => [provider, createValue(provider)])) as Record<Provider, T>;
+
+const ratioValue = (aspectRatio: AspectRatio) => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+// The requested aspect ratio when the model supports it, otherwise the closest one it does.
+export const mapAspectRatio = (adapter: ImageProviderAdapter, aspectRatio: AspectRatio): AspectRatio => {
+    const supported = adapter.capabilities.aspectRatios;
+    if (supported.includes(aspectRatio)) return aspectRatio;
+    const target = Math.log(ratioValue(aspectRatio));
+    return supported.reduce((best, candidate) =>
+        Math.abs(Math.log(ratioValue(candidate)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? candidate : best
+    );
+};
+
+// The model's option values with defaults filled in for anything not chosen.
+export const getProviderOptionValues = (adapter: ImageProviderAdapter, selected: ProviderOptionValues = {}): ProviderOptionValues =>
+    Object.fromEntries((adapter.capabilities.options ?? []).map(option => [
+        option.id,
+        option.choices.some(choice => choice.value === selected[option.id]) ? selected[option.id] : option.defaultValue,
+    ]));
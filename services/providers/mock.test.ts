@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AspectRatio, GenerateImageRequest } from '../../types';
+import { mockAdapter, parseMockKey } from './mock';
+
+const request: GenerateImageRequest = {
+    prompt: 'A paper boat',
+    aspectRatio: AspectRatio.SQUARE,
+    apiKey: 'demo',
+    safetyLevel: 'default',
+    count: 2,
+    seed: 1,
+    options: { latency: '0' },
+};
+
+// jsdom has no canvas, so the placeholders come out as SVG.
+beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+});
+
+describe('parseMockKey', () => {
+    it('reads the failure and how often it happens', () => {
+        expect(parseMockKey('demo')).toEqual({ failureRate: 0 });
+        expect(parseMockKey('demo:500')).toEqual({ failure: '500', failureRate: 1 });
+        expect(parseMockKey('demo:429:0.25')).toEqual({ failure: '429', failureRate: 0.25 });
+    });
+
+    it('rejects unknown failures and rates outside 0-1 as bad keys', () => {
+        expect(() => parseMockKey('demo:oops')).toThrow(expect.objectContaining({ category: 'auth' }));
+        expect(() => parseMockKey('demo:429:2')).toThrow(expect.objectContaining({ category: 'auth' }));
+    });
+});
+
+describe('mockAdapter', () => {
+    it('returns the same placeholder images for the same request', async () => {
+        const first = await mockAdapter.generate(request);
+        const second = await mockAdapter.generate(request);
+        expect(first).toHaveLength(2);
+        expect(first).toEqual(second);
+        expect(first[0].imageUrl).not.toBe(first[1].imageUrl);
+    });
+
+    it.each([
+        ['demo:429', 'rate_limit'],
+        ['demo:safety', 'safety_block'],
+        ['demo:500', 'server'],
+        ['demo:timeout', 'network'],
+    ])('fails a %s key as %s', async (apiKey, category) => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const error = await mockAdapter.generate({ ...request, apiKey }).catch(e => e);
+        expect(mockAdapter.normalizeError(error).category).toBe(category);
+    });
+});
@@ -0,0 +1,179 @@
+import { AspectRatio, ImageVariant, NormalizedProviderError } from '../../types';
+import { isAbortError, sleep } from '../timing';
+import { classifyError, createProviderError, defineImageProvider, parseRetryAfterMs, SAFETY_BLOCK_MESSAGE } from './base';
+
+export type MockFailure = '429' | 'safety' | '500' | 'timeout';
+
+export interface MockKeyBehavior {
+    failure?: MockFailure;
+    // Share of calls that fail, from 0 to 1.
+    failureRate: number;
+}
+
+const MOCK_FAILURES: MockFailure[] = ['429', 'safety', '500', 'timeout'];
+
+/**
+ * Mock keys are `name`, `name:failure` or `name:failure:rate`, e.g. `demo`,
+ * `demo:429` or `demo:500:0.3`. A key without a failure always succeeds.
+ */
+export const parseMockKey = (key: string): MockKeyBehavior => {
+    const [, failure, rate] = key.trim().split(':');
+    if (!failure) return { failureRate: 0 };
+    if (!MOCK_FAILURES.includes(failure as MockFailure)) {
+        throw createProviderError(`Unknown mock failure "${failure}"; use one of ${MOCK_FAILURES.join(', ')}.`, 'auth');
+    }
+    const failureRate = rate === undefined ? 1 : Number(rate);
+    if (isNaN(failureRate) || failureRate < 0 || failureRate > 1) {
+        throw createProviderError(`Mock failure rate "${rate}" must be between 0 and 1.`, 'auth');
+    }
+    return { failure: failure as MockFailure, failureRate };
+};
+
+// How long a mock 429 asks the caller to wait.
+const MOCK_RETRY_AFTER_SECONDS = 5;
+
+const throwMockFailure = (failure: MockFailure): never => {
+    switch (failure) {
+        case '429':
+            throw { status: 429, message: 'Mock rate limit exceeded', retryAfter: String(MOCK_RETRY_AFTER_SECONDS) };
+        case 'safety':
+            throw createProviderError(SAFETY_BLOCK_MESSAGE, 'safety_block');
+        case '500':
+            throw { status: 500, message: 'Mock internal server error' };
+        case 'timeout':
+            throw createProviderError('Mock request timed out', 'network');
+    }
+};
+
+const MOCK_SIZES: Record<AspectRatio, [number, number]> = {
+    [AspectRatio.SQUARE]: [512, 512],
+    [AspectRatio.LANDSCAPE]: [768, 432],
+    [AspectRatio.PORTRAIT]: [432, 768],
+};
+
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && (line + ' ' + word).length > maxChars) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`] : lines;
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Draws the text on a background colour picked from its hash, so the same
+ * prompt, seed and variant always give the same image. Falls back to an SVG
+ * where canvas is unavailable, e.g. in tests.
+ */
+export const renderPlaceholderImage = (text: string, caption: string, aspectRatio: AspectRatio): ImageVariant => {
+    const [width, height] = MOCK_SIZES[aspectRatio];
+    const hue = hashString(`${text}|${caption}`) % 360;
+    const lines = wrapText(text, Math.floor(width / 14), 12);
+    const lineHeight = 28;
+    const top = (height - lines.length * lineHeight) / 2;
+
+    const canvas = typeof document !== 'undefined' ? document.createElement('canvas') : null;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) {
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+            + `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 35%)"/>`
+            + lines.map((l, i) => `<text x="50%" y="${top + i * lineHeight + 20}" text-anchor="middle" font-family="sans-serif" font-size="22" fill="white">${escapeXml(l)}</text>`).join('')
+            + `<text x="12" y="${height - 12}" font-family="monospace" font-size="14" fill="white">${escapeXml(caption)}</text></svg>`;
+        return { imageUrl: `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`, mimeType: 'image/svg+xml' };
+    }
+
+    canvas.width = width;
+    canvas.height = height;
+    context.fillStyle = `hsl(${hue}, 45%, 35%)`;
+    context.fillRect(0, 0, width, height);
+    context.fillStyle = 'white';
+    context.textAlign = 'center';
+    context.font = '22px sans-serif';
+    lines.forEach((l, i) => context.fillText(l, width / 2, top + i * lineHeight + 20));
+    context.textAlign = 'left';
+    context.font = '14px monospace';
+    context.fillText(caption, 12, height - 12);
+    return { imageUrl: canvas.toDataURL('image/png'), mimeType: 'image/png' };
+};
+
+// Waits out the configured latency, then fails the way the key asks for, or not.
+const simulateRequest = async (apiKey: string, latencyMs: number, signal?: AbortSignal) => {
+    const { failure, failureRate } = parseMockKey(apiKey);
+    await sleep(latencyMs, signal);
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (failure && Math.random() < failureRate) throwMockFailure(failure);
+};
+
+const normalizeMockError = (error: any): NormalizedProviderError => {
+    if (!isAbortError(error)) console.error('[mock] Image generation error:', error);
+    return {
+        message: `Mock Error: ${error?.message || 'An unknown error occurred'}`,
+        category: classifyError(error),
+        retryAfterMs: parseRetryAfterMs(error?.retryAfter),
+    };
+};
+
+export const mockAdapter = defineImageProvider({
+    id: 'mock-placeholder',
+    provider: 'mock',
+    name: 'Mock - Placeholder Images',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+        outputMimeType: 'image/png',
+        maxPromptLength: 8000,
+        maxImagesPerRequest: 4,
+        supportsSafetySettings: false,
+        supportsNegativePrompt: true,
+        supportsSeed: true,
+        editing: {
+            supportsMask: true,
+            supportsReferenceImage: true,
+        },
+        options: [
+            {
+                id: 'latency',
+                label: 'Latency',
+                choices: [
+                    { value: '0', label: 'None' },
+                    { value: '500', label: '0.5s' },
+                    { value: '2000', label: '2s' },
+                    { value: '5000', label: '5s' },
+                ],
+                defaultValue: '500',
+            },
+        ],
+    },
+    pricePerImage: {
+        [AspectRatio.SQUARE]: 0,
+        [AspectRatio.LANDSCAPE]: 0,
+        [AspectRatio.PORTRAIT]: 0,
+    },
+    generate: async ({ prompt, aspectRatio, apiKey, count, seed, options, signal }) => {
+        await simulateRequest(apiKey, Number(options.latency), signal);
+        return Array.from({ length: count }, (_, i) => renderPlaceholderImage(prompt, `MOCK seed ${seed ?? '-'} #${i + 1}`, aspectRatio));
+    },
+    edit: async ({ instruction, apiKey, count, options, signal }) => {
+        await simulateRequest(apiKey, Number(options.latency), signal);
+        return Array.from({ length: count }, (_, i) => renderPlaceholderImage(instruction, `MOCK edit #${i + 1}`, AspectRatio.SQUARE));
+    },
+    validateKey: async (apiKey) => {
+        parseMockKey(apiKey);
+    },
+    normalizeError: normalizeMockError,
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AspectRatio, GenerateImageRequest } from '../../types';
+import { dalle3Adapter, gptImage1Adapter } from './openai';
+
+const request: GenerateImageRequest = {
+    prompt: 'A red bicycle',
+    aspectRatio: AspectRatio.LANDSCAPE,
+    apiKey: 'sk-test',
+    safetyLevel: 'default',
+    count: 1,
+    options: {},
+};
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const mockFetch = (response: Response) => {
+    const fetchMock = vi.fn<typeof fetch>(async () => response);
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+const sentBody = (fetchMock: ReturnType<typeof mockFetch>) => {
+    const init: RequestInit | undefined = fetchMock.mock.calls[0][1];
+    return JSON.parse(init!.body as string);
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('OpenAI adapters', () => {
+    it('requests DALL·E 3 at the size for the aspect ratio and returns data URLs', async () => {
+        const fetchMock = mockFetch(jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+
+        const images = await dalle3Adapter.generate(request);
+
+        expect(images).toEqual([{ imageUrl: 'data:image/png;base64,aW1hZ2U=', mimeType: 'image/png' }]);
+        expect(fetchMock).toHaveBeenCalledWith('https://api.openai.com/v1/images/generations', expect.objectContaining({
+            headers: expect.objectContaining({ Authorization: 'Bearer sk-test' }),
+        }));
+        expect(sentBody(fetchMock)).toEqual({ model: 'dall-e-3', size: '1792x1024', response_format: 'b64_json', prompt: 'A red bicycle', n: 1 });
+    });
+
+    it('sends gpt-image-1 options without response_format', async () => {
+        const fetchMock = mockFetch(jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+
+        await gptImage1Adapter.generate({ ...request, safetyLevel: 'lenient', options: { quality: 'high', background: 'transparent' } });
+
+        expect(sentBody(fetchMock)).toEqual({
+            model: 'gpt-image-1',
+            size: '1536x1024',
+            quality: 'high',
+            background: 'transparent',
+            moderation: 'low',
+            prompt: 'A red bicycle',
+            n: 1,
+        });
+    });
+
+    it('keeps gpt-image-1 moderation on auto for the batch default safety level', async () => {
+        const fetchMock = mockFetch(jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+
+        await gptImage1Adapter.generate({ ...request, safetyLevel: 'none' });
+
+        expect(sentBody(fetchMock).moderation).toBe('auto');
+    });
+
+    it('normalizes a rate limit with its Retry-After header', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        mockFetch(jsonResponse({ error: { message: 'Rate limit reached', code: 'rate_limit_exceeded' } }, 429, { 'Retry-After': '12' }));
+
+        const error = await dalle3Adapter.generate(request).catch(e => e);
+
+        expect(dalle3Adapter.normalizeError(error)).toEqual({
+            message: 'OpenAI Error: Rate limit reached',
+            category: 'rate_limit',
+            retryAfterMs: 12000,
+        });
+    });
+
+    it('treats an empty response as a server error', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        mockFetch(jsonResponse({ data: [] }));
+
+        const error = await dalle3Adapter.generate(request).catch(e => e);
+
+        expect(dalle3Adapter.normalizeError(error).category).toBe('server');
+    });
+});
@@ -0,0 +1,215 @@
+import { AspectRatio, EditImageRequest, GenerateImageRequest, NormalizedProviderError, ProviderOptionValues, SafetyLevel } from '../../types';
+import { convertImage } from '../imageConversion';
+import { dataUrlToBlob } from '../imageData';
+import { classifyError, createProviderError, defineImageProvider, parseRetryAfterMs } from './base';
+
+const normalizeOpenAIError = (error: any): NormalizedProviderError => {
+    console.error('[openai] Image generation error:', error);
+    const message = error?.error?.message
+        ? `OpenAI Error: ${error.error.message}`
+        : (error?.message || 'An unknown error occurred');
+    return { message, category: classifyError(error), retryAfterMs: parseRetryAfterMs(error?.retryAfter) };
+};
+
+const parseOpenAIImages = async (response: Response) => {
+    const data = await response.json();
+    if (!response.ok) throw { ...data, status: response.status, retryAfter: response.headers.get('retry-after') };
+
+    const images: string[] = (data.data ?? []).map((item: any) => item?.b64_json).filter(Boolean);
+    if (images.length === 0) {
+        throw createProviderError('Generation failed: No image data returned from OpenAI API.', 'server');
+    }
+    return images.map(b64Json => ({ imageUrl: `data:image/png;base64,${b64Json}`, mimeType: 'image/png' }));
+};
+
+// `params` holds the model-specific fields: model, size and the output options it accepts.
+const requestOpenAIImage = async (params: Record<string, string>, { prompt, apiKey, count, signal }: GenerateImageRequest) => {
+    const response = await fetch('https://api.openai.com/v1/images/generations', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            ...params,
+            prompt,
+            n: count,
+        }),
+        signal,
+    });
+    return parseOpenAIImages(response);
+};
+
+// The edits endpoint only accepts PNG uploads; transparent mask pixels mark the area to repaint.
+const requestOpenAIEdit = async (params: Record<string, string>, { instruction, image, mask, apiKey, count, signal }: EditImageRequest) => {
+    const form = new FormData();
+    Object.entries(params).forEach(([name, value]) => form.append(name, value));
+    form.append('image', image.mimeType === 'image/png' ? await dataUrlToBlob(image.imageUrl) : await convertImage(image.imageUrl, 'image/png'), 'image.png');
+    if (mask) form.append('mask', await dataUrlToBlob(mask), 'mask.png');
+    form.append('prompt', instruction);
+    form.append('n', String(count));
+
+    const response = await fetch('https://api.openai.com/v1/images/edits', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        body: form,
+        signal,
+    });
+    return parseOpenAIImages(response);
+};
+
+const validateOpenAIKey = async (apiKey: string, model: string) => {
+    const response = await fetch(`https://api.openai.com/v1/models/${model}`, {
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+    });
+    if (!response.ok) throw { ...(await response.json()), status: response.status };
+};
+
+const DALLE3_SIZES = {
+    [AspectRatio.SQUARE]: '1024x1024',
+    [AspectRatio.LANDSCAPE]: '1792x1024',
+    [AspectRatio.PORTRAIT]: '1024x1792',
+};
+
+export const dalle3Adapter = defineImageProvider({
+    id: 'openai-dalle3',
+    provider: 'openai',
+    name: 'OpenAI - DALL·E 3',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+        sizes: DALLE3_SIZES,
+        outputMimeType: 'image/png',
+        maxPromptLength: 4000,
+        maxImagesPerRequest: 1,
+        supportsSafetySettings: false,
+        supportsNegativePrompt: false,
+        supportsSeed: false,
+    },
+    pricePerImage: {
+        [AspectRatio.SQUARE]: 0.04,
+        [AspectRatio.LANDSCAPE]: 0.08,
+        [AspectRatio.PORTRAIT]: 0.08,
+    },
+    generate: (request) => requestOpenAIImage({ model: 'dall-e-3', size: DALLE3_SIZES[request.aspectRatio], response_format: 'b64_json' }, request),
+    validateKey: (apiKey) => validateOpenAIKey(apiKey, 'dall-e-3'),
+    normalizeError: normalizeOpenAIError,
+});
+
+export const dalle2Adapter = defineImageProvider({
+    id: 'openai-dalle2',
+    provider: 'openai',
+    name: 'OpenAI - DALL·E 2',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE],
+        sizes: { [AspectRatio.SQUARE]: '1024x1024' },
+        outputMimeType: 'image/png',
+        maxPromptLength: 1000,
+        maxImagesPerRequest: 10,
+        supportsSafetySettings: false,
+        supportsNegativePrompt: false,
+        supportsSeed: false,
+        editing: {
+            supportsMask: true,
+            supportsReferenceImage: false,
+        },
+    },
+    pricePerImage: { [AspectRatio.SQUARE]: 0.02 },
+    generate: (request) => requestOpenAIImage({ model: 'dall-e-2', size: '1024x1024', response_format: 'b64_json' }, request),
+    edit: (request) => requestOpenAIEdit({ model: 'dall-e-2', size: '1024x1024', response_format: 'b64_json' }, request),
+    validateKey: (apiKey) => validateOpenAIKey(apiKey, 'dall-e-2'),
+    normalizeError: normalizeOpenAIError,
+});
+
+const GPT_IMAGE_SIZES = {
+    [AspectRatio.SQUARE]: '1024x1024',
+    [AspectRatio.LANDSCAPE]: '1536x1024',
+    [AspectRatio.PORTRAIT]: '1024x1536',
+};
+
+const GPT_IMAGE_PRICES: Record<string, Record<AspectRatio, number>> = {
+    low: {
+        [AspectRatio.SQUARE]: 0.011,
+        [AspectRatio.LANDSCAPE]: 0.016,
+        [AspectRatio.PORTRAIT]: 0.016,
+    },
+    medium: {
+        [AspectRatio.SQUARE]: 0.042,
+        [AspectRatio.LANDSCAPE]: 0.063,
+        [AspectRatio.PORTRAIT]: 0.063,
+    },
+    high: {
+        [AspectRatio.SQUARE]: 0.167,
+        [AspectRatio.LANDSCAPE]: 0.25,
+        [AspectRatio.PORTRAIT]: 0.25,
+    },
+};
+
+/**
+ * gpt-image-1 only has 'auto' and 'low' moderation. 'none' is the batch default,
+ * chosen for Google's block thresholds, so only an explicit 'lenient' lowers it.
+ */
+const GPT_IMAGE_MODERATION: Record<SafetyLevel, 'auto' | 'low'> = {
+    default: 'auto',
+    lenient: 'low',
+    none: 'auto',
+};
+
+// gpt-image-1 always returns base64 and rejects `response_format`.
+const getGptImageParams = (size: string, options: ProviderOptionValues) => ({
+    model: 'gpt-image-1',
+    size,
+    quality: options.quality,
+    background: options.background,
+});
+
+export const gptImage1Adapter = defineImageProvider({
+    id: 'openai-gpt-image-1',
+    provider: 'openai',
+    name: 'OpenAI - GPT Image 1',
+    capabilities: {
+        aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+        sizes: GPT_IMAGE_SIZES,
+        outputMimeType: 'image/png',
+        maxPromptLength: 32000,
+        maxImagesPerRequest: 10,
+        supportsSafetySettings: true,
+        supportsNegativePrompt: false,
+        supportsSeed: false,
+        editing: {
+            supportsMask: true,
+            supportsReferenceImage: false,
+        },
+        options: [
+            {
+                id: 'quality',
+                label: 'Quality',
+                choices: [
+                    { value: 'auto', label: 'Auto' },
+                    { value: 'low', label: 'Low' },
+                    { value: 'medium', label: 'Medium' },
+                    { value: 'high', label: 'High' },
+                ],
+                defaultValue: 'auto',
+            },
+            {
+                id: 'background',
+                label: 'Background',
+                choices: [
+                    { value: 'auto', label: 'Auto' },
+                    { value: 'opaque', label: 'Opaque' },
+                    { value: 'transparent', label: 'Transparent' },
+                ],
+                defaultValue: 'auto',
+            },
+        ],
+    },
+    // What 'auto' quality may cost; see `priceFor`.
+    pricePerImage: GPT_IMAGE_PRICES.high,
+    // OpenAI picks the quality for 'auto', so it is priced as high, the most it can cost.
+    priceFor: (aspectRatio, options) => (GPT_IMAGE_PRICES[options.quality] ?? GPT_IMAGE_PRICES.high)[aspectRatio],
+    generate: (request) => requestOpenAIImage({
+        ...getGptImageParams(GPT_IMAGE_SIZES[request.aspectRatio], request.options),
+        moderation: GPT_IMAGE_MODERATION[request.safetyLevel],
+    }, request),
+    // 'auto' keeps the size of the image being edited.
+    edit: (request) => requestOpenAIEdit(getGptImageParams('auto', request.options), request),
+    validateKey: (apiKey) => validateOpenAIKey(apiKey, 'gpt-image-1'),
+    normalizeError: normalizeOpenAIError,
+});
@@ -0,0 +1,209 @@
+import { AspectRatio, GenerateImageRequest, ImageVariant, NormalizedProviderError, ProviderCapabilities } from '../../types';
+import { blobToDataUrl } from '../imageData';
+import { sleep } from '../timing';
+import { classifyError, createProviderError, defineImageProvider } from './base';
+
+// Pixel sizes per base resolution; SDXL-class checkpoints want 1024, SD 1.5 ones 512.
+const LOCAL_SIZES: Record<string, Record<AspectRatio, [number, number]>> = {
+    '1024': {
+        [AspectRatio.SQUARE]: [1024, 1024],
+        [AspectRatio.LANDSCAPE]: [1344, 768],
+        [AspectRatio.PORTRAIT]: [768, 1344],
+    },
+    '512': {
+        [AspectRatio.SQUARE]: [512, 512],
+        [AspectRatio.LANDSCAPE]: [912, 512],
+        [AspectRatio.PORTRAIT]: [512, 912],
+    },
+};
+
+const LOCAL_CAPABILITIES: ProviderCapabilities = {
+    aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+    outputMimeType: 'image/png',
+    maxPromptLength: 8000,
+    maxImagesPerRequest: 4,
+    supportsSafetySettings: false,
+    supportsNegativePrompt: true,
+    supportsSeed: true,
+    options: [
+        {
+            id: 'resolution',
+            label: 'Resolution',
+            choices: [
+                { value: '1024', label: 'SDXL (1024px)' },
+                { value: '512', label: 'SD 1.5 (512px)' },
+            ],
+            defaultValue: '1024',
+        },
+        {
+            id: 'steps',
+            label: 'Steps',
+            choices: ['20', '30', '40'].map(value => ({ value, label: value })),
+            defaultValue: '30',
+        },
+    ],
+};
+
+// Local servers cost nothing per image.
+const FREE = {
+    [AspectRatio.SQUARE]: 0,
+    [AspectRatio.LANDSCAPE]: 0,
+    [AspectRatio.PORTRAIT]: 0,
+};
+
+const toBaseUrl = (value: string) => value.trim().replace(/\/+$/, '');
+
+const getLocalSize = ({ aspectRatio, options }: GenerateImageRequest) =>
+    (LOCAL_SIZES[options.resolution] ?? LOCAL_SIZES['1024'])[aspectRatio];
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+const createLocalErrorNormalizer = (name: string) => (error: any): NormalizedProviderError => {
+    console.error(`[${name}] Image generation error:`, error);
+    const detail = error?.error?.message ?? error?.detail ?? error?.error ?? error?.message;
+    const category = classifyError(error);
+    const message = category === 'network'
+        ? `Could not reach the ${name} server. Check that it is running, its API is enabled and it allows requests from this page (CORS).`
+        : (typeof detail === 'string' ? `${name} Error: ${detail}` : 'An unknown error occurred');
+    return { message, category };
+};
+
+const fetchLocalJson = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw { ...data, status: response.status };
+    return data;
+};
+
+const requestAutomatic1111Image = async (request: GenerateImageRequest) => {
+    const [width, height] = getLocalSize(request);
+    const data = await fetchLocalJson(`${toBaseUrl(request.apiKey)}/sdapi/v1/txt2img`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            prompt: request.prompt,
+            negative_prompt: request.negativePrompt ?? '',
+            seed: request.seed ?? -1,
+            width,
+            height,
+            steps: Number(request.options.steps),
+            batch_size: request.count,
+        }),
+        signal: request.signal,
+    });
+    const images: string[] = data.images ?? [];
+    if (images.length === 0) {
+        throw createProviderError('Generation failed: No image data returned from Automatic1111.', 'server');
+    }
+    return images.map(image => ({ imageUrl: `data:image/png;base64,${image}`, mimeType: 'image/png' }));
+};
+
+export const automatic1111Adapter = defineImageProvider({
+    id: 'local-automatic1111',
+    provider: 'automatic1111',
+    name: 'Local - Automatic1111',
+    capabilities: LOCAL_CAPABILITIES,
+    pricePerImage: FREE,
+    generate: requestAutomatic1111Image,
+    validateKey: async (baseUrl) => {
+        await fetchLocalJson(`${toBaseUrl(baseUrl)}/sdapi/v1/sd-models`);
+    },
+    normalizeError: createLocalErrorNormalizer('Automatic1111'),
+});
+
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+const COMFYUI_TIMEOUT_MS = 10 * 60 * 1000;
+
+// The first checkpoint the server has installed, per server.
+const comfyCheckpoints = new Map<string, Promise<string>>();
+
+const getComfyCheckpoint = (baseUrl: string): Promise<string> => {
+    let checkpoint = comfyCheckpoints.get(baseUrl);
+    if (!checkpoint) {
+        checkpoint = fetchLocalJson(`${baseUrl}/object_info/CheckpointLoaderSimple`).then(data => {
+            const name = data?.CheckpointLoaderSimple?.input?.required?.ckpt_name?.[0]?.[0];
+            if (typeof name !== 'string') {
+                throw createProviderError('The ComfyUI server has no checkpoints installed.', 'invalid_request');
+            }
+            return name;
+        });
+        checkpoint.catch(() => comfyCheckpoints.delete(baseUrl));
+        comfyCheckpoints.set(baseUrl, checkpoint);
+    }
+    return checkpoint;
+};
+
+// The default text-to-image graph in ComfyUI's API format.
+const buildComfyWorkflow = (request: GenerateImageRequest, checkpoint: string) => {
+    const [width, height] = getLocalSize(request);
+    return {
+        checkpoint: { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+        latent: { class_type: 'EmptyLatentImage', inputs: { width, height, batch_size: request.count } },
+        positive: { class_type: 'CLIPTextEncode', inputs: { text: request.prompt, clip: ['checkpoint', 1] } },
+        negative: { class_type: 'CLIPTextEncode', inputs: { text: request.negativePrompt ?? '', clip: ['checkpoint', 1] } },
+        sampler: {
+            class_type: 'KSampler',
+            inputs: {
+                seed: request.seed ?? randomSeed(),
+                steps: Number(request.options.steps),
+                cfg: 7,
+                sampler_name: 'euler',
+                scheduler: 'normal',
+                denoise: 1,
+                model: ['checkpoint', 0],
+                positive: ['positive', 0],
+                negative: ['negative', 0],
+                latent_image: ['latent', 0],
+            },
+        },
+        decode: { class_type: 'VAEDecode', inputs: { samples: ['sampler', 0], vae: ['checkpoint', 2] } },
+        save: { class_type: 'SaveImage', inputs: { filename_prefix: 'promptflow', images: ['decode', 0] } },
+    };
+};
+
+// ComfyUI queues the graph and answers right away; the images appear in its history once it has run.
+const requestComfyImage = async (request: GenerateImageRequest): Promise<ImageVariant[]> => {
+    const baseUrl = toBaseUrl(request.apiKey);
+    const workflow = buildComfyWorkflow(request, await getComfyCheckpoint(baseUrl));
+    const { prompt_id: promptId } = await fetchLocalJson(`${baseUrl}/prompt`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt: workflow }),
+        signal: request.signal,
+    });
+
+    const deadline = Date.now() + COMFYUI_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        await sleep(COMFYUI_POLL_INTERVAL_MS, request.signal);
+        if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        const history = (await fetchLocalJson(`${baseUrl}/history/${promptId}`, { signal: request.signal }))[promptId];
+        if (!history) continue;
+        if (history.status?.status_str === 'error') {
+            throw createProviderError('ComfyUI failed to run the workflow; see the server log for details.', 'server');
+        }
+        const images: Array<{ filename: string, subfolder: string, type: string }> = history.outputs?.save?.images ?? [];
+        if (images.length === 0) {
+            throw createProviderError('Generation failed: No image data returned from ComfyUI.', 'server');
+        }
+        return Promise.all(images.map(async image => {
+            const response = await fetch(`${baseUrl}/view?${new URLSearchParams(image)}`, { signal: request.signal });
+            if (!response.ok) throw { status: response.status, message: `Could not download ${image.filename}` };
+            const blob = await response.blob();
+            return { imageUrl: await blobToDataUrl(blob), mimeType: blob.type || 'image/png' };
+        }));
+    }
+    throw createProviderError(`ComfyUI did not finish within ${COMFYUI_TIMEOUT_MS / 60000} minutes.`, 'server');
+};
+
+export const comfyUiAdapter = defineImageProvider({
+    id: 'local-comfyui',
+    provider: 'comfyui',
+    name: 'Local - ComfyUI',
+    capabilities: LOCAL_CAPABILITIES,
+    pricePerImage: FREE,
+    generate: requestComfyImage,
+    validateKey: async (baseUrl) => {
+        await fetchLocalJson(`${toBaseUrl(baseUrl)}/system_stats`);
+    },
+    normalizeError: createLocalErrorNormalizer('ComfyUI'),
+});
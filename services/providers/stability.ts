@@ -0,0 +1,87 @@
+import { AspectRatio, GenerateImageRequest, NormalizedProviderError } from '../../types';
+import { classifyError, createProviderError, defineImageProvider, parseRetryAfterMs, SAFETY_BLOCK_MESSAGE } from './base';
+
+const STABILITY_API_URL = 'https://api.stability.ai';
+
+const normalizeStabilityError = (error: any): NormalizedProviderError => {
+    console.error('[stability] Image generation error:', error);
+    const details = Array.isArray(error?.errors) ? error.errors.join(' ') : error?.message;
+    const message = error?.name && details
+        ? `Stability AI Error: ${details}`
+        : (details || 'An unknown error occurred');
+    return { message, category: classifyError(error), retryAfterMs: parseRetryAfterMs(error?.retryAfter) };
+};
+
+// Stable Image endpoints take one prompt per call and answer with a single base64 PNG.
+const requestStabilityImage = async (endpoint: string, { prompt, aspectRatio, apiKey, negativePrompt, seed, signal }: GenerateImageRequest) => {
+    const form = new FormData();
+    form.append('prompt', prompt);
+    form.append('aspect_ratio', aspectRatio);
+    form.append('output_format', 'png');
+    if (negativePrompt) form.append('negative_prompt', negativePrompt);
+    if (seed !== undefined) form.append('seed', String(seed));
+
+    const response = await fetch(`${STABILITY_API_URL}/v2beta/stable-image/generate/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
+        body: form,
+        signal,
+    });
+    const data = await response.json();
+    // Moderation rejections come back as 403, which would otherwise read as a bad key.
+    if (data?.name === 'content_moderation' || data?.finish_reason === 'CONTENT_FILTERED') {
+        throw createProviderError(SAFETY_BLOCK_MESSAGE, 'safety_block');
+    }
+    if (!response.ok) throw { ...data, status: response.status, retryAfter: response.headers.get('retry-after') };
+    if (!data?.image) {
+        throw createProviderError('Generation failed: No image data returned from Stability AI.', 'server');
+    }
+    return [{ imageUrl: `data:image/png;base64,${data.image}`, mimeType: 'image/png' }];
+};
+
+const validateStabilityKey = async (apiKey: string) => {
+    const response = await fetch(`${STABILITY_API_URL}/v1/user/account`, {
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+    });
+    if (!response.ok) throw { ...(await response.json()), status: response.status };
+};
+
+const STABILITY_CAPABILITIES = {
+    aspectRatios: [AspectRatio.SQUARE, AspectRatio.PORTRAIT, AspectRatio.LANDSCAPE],
+    outputMimeType: 'image/png',
+    maxPromptLength: 10000,
+    maxImagesPerRequest: 1,
+    supportsSafetySettings: false,
+    supportsNegativePrompt: true,
+    supportsSeed: true,
+};
+
+export const stableImageCoreAdapter = defineImageProvider({
+    id: 'stability-core',
+    provider: 'stability',
+    name: 'Stability AI - Stable Image Core',
+    capabilities: STABILITY_CAPABILITIES,
+    pricePerImage: {
+        [AspectRatio.SQUARE]: 0.03,
+        [AspectRatio.LANDSCAPE]: 0.03,
+        [AspectRatio.PORTRAIT]: 0.03,
+    },
+    generate: (request) => requestStabilityImage('core', request),
+    validateKey: validateStabilityKey,
+    normalizeError: normalizeStabilityError,
+});
+
+export const stableImageUltraAdapter = defineImageProvider({
+    id: 'stability-ultra',
+    provider: 'stability',
+    name: 'Stability AI - Stable Image Ultra',
+    capabilities: STABILITY_CAPABILITIES,
+    pricePerImage: {
+        [AspectRatio.SQUARE]: 0.08,
+        [AspectRatio.LANDSCAPE]: 0.08,
+        [AspectRatio.PORTRAIT]: 0.08,
+    },
+    generate: (request) => requestStabilityImage('ultra', request),
+    validateKey: validateStabilityKey,
+    normalizeError: normalizeStabilityError,
+});
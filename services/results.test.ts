@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { CsvRow } from '../types';
+import { selectRowsInRange } from './results';
+
+const rows: CsvRow[] = ['1', '2', '5', '10'].map(id => ({ id, prompt: `Prompt ${id}` }));
+
+describe('selectRowsInRange', () => {
+    it('selects every row when both ends are empty', () => {
+        expect(selectRowsInRange(rows, '', ' ')).toEqual({ rows });
+    });
+
+    it('compares IDs as numbers, inclusive at both ends', () => {
+        expect(selectRowsInRange(rows, '2', '10')).toEqual({ rows: rows.slice(1) });
+    });
+
+    it.each([
+        ['', '5'],
+        ['abc', '5'],
+        ['5', '2'],
+    ])('rejects the range %j to %j', (startId, endId) => {
+        expect(selectRowsInRange(rows, startId, endId)).toEqual({ error: 'Please provide a valid start and end ID for the generation range.' });
+    });
+
+    it('reports a range without rows', () => {
+        expect(selectRowsInRange(rows, '6', '9')).toEqual({ error: 'No prompts found in the specified range: 6 - 9.' });
+    });
+});
@@ -0,0 +1,92 @@
+import { BatchJobSettings, CsvRow, ImageResult, ImageVariant, ResultVersion } from '../types';
+
+export const getChosenVariant = (result: ImageResult): ImageVariant | null =>
+    result.variants[result.chosenVariant] ?? result.variants[0] ?? null;
+
+export const hasImage = (result: ImageResult): boolean =>
+    result.status === 'success' && getChosenVariant(result) !== null;
+
+// Base name (without extension) used for downloaded files.
+export const getExportName = (row: CsvRow): string => row.filename || row.id;
+
+/**
+ * Applies a row's CSV overrides (model, aspect ratio, variant count) on top of
+ * the batch settings.
+ */
+export const resolveRowSettings = (row: CsvRow, settings: BatchJobSettings): BatchJobSettings => ({
+    ...settings,
+    model: row.model ?? settings.model,
+    aspectRatio: row.aspectRatio ?? settings.aspectRatio,
+    variantsPerPrompt: row.variantCount ?? settings.variantsPerPrompt,
+});
+
+// Snapshot of a result's current image(s), pushed onto `history` before they are replaced.
+export const toResultVersion = (result: ImageResult): ResultVersion => ({
+    prompt: result.prompt,
+    expandedPrompt: result.expandedPrompt,
+    variants: result.variants,
+    chosenVariant: result.chosenVariant,
+    generation: result.generation,
+    createdAt: result.generation?.generatedAt ?? Date.now(),
+});
+
+// Moves the current image(s) into history so a regeneration can never overwrite them.
+export const archiveCurrentVersion = (result: ImageResult): ImageResult => {
+    if (result.variants.length === 0) return result;
+    return {
+        ...result,
+        history: [...(result.history ?? []), toResultVersion(result)],
+        variants: [],
+        chosenVariant: 0,
+        generation: undefined,
+    };
+};
+
+/**
+ * Restores `history[versionIndex]` as the current version. The version being
+ * replaced is archived first, so reverting is itself undoable.
+ */
+export const revertToVersion = (result: ImageResult, versionIndex: number): ImageResult => {
+    const version = result.history?.[versionIndex];
+    if (!version) return result;
+    const archived = archiveCurrentVersion(result);
+    return {
+        ...archived,
+        history: (archived.history ?? []).filter(v => v !== version),
+        prompt: version.prompt,
+        expandedPrompt: version.expandedPrompt,
+        variants: version.variants,
+        chosenVariant: version.chosenVariant,
+        generation: version.generation,
+        status: 'success',
+        error: undefined,
+    };
+};
+
+// Replaces every literal occurrence of `find` in the prompt; returns null when there is none.
+export const replaceInPrompt = (result: ImageResult, find: string, replacement: string): ImageResult | null => {
+    if (!find || !result.prompt.includes(find)) return null;
+    return { ...result, prompt: result.prompt.split(find).join(replacement) };
+};
+
+/**
+ * Rows whose numeric ID lies within `startId`-`endId`, inclusive. Both empty
+ * selects every row; anything else unusable comes back as an error message.
+ */
+export const selectRowsInRange = <T extends CsvRow>(rows: T[], startId: string, endId: string): { rows: T[] } | { error: string } => {
+    if (startId.trim() === '' && endId.trim() === '') return { rows: [...rows] };
+
+    const startNum = parseInt(startId, 10);
+    const endNum = parseInt(endId, 10);
+    if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) {
+        return { error: "Please provide a valid start and end ID for the generation range." };
+    }
+    const inRange = rows.filter(row => {
+        const rowNum = parseInt(row.id, 10);
+        return rowNum >= startNum && rowNum <= endNum;
+    });
+    if (inRange.length === 0) {
+        return { error: `No prompts found in the specified range: ${startNum} - ${endNum}.` };
+    }
+    return { rows: inRange };
+};
@@ -0,0 +1,49 @@
+import { ErrorCategory, RetryPolicy } from '../types';
+import { ScheduledRequestResult } from './keyScheduler';
+import { sleep } from './timing';
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+    rate_limit: 'Rate limit',
+    safety_block: 'Safety block',
+    auth: 'Invalid key',
+    network: 'Network error',
+    server: 'Server error',
+    invalid_request: 'Invalid request',
+    unknown: 'Unknown error',
+};
+
+// Rate limits are already retried across keys by the scheduler, so they are off by default.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+    retryOn: ['network', 'server'],
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`.
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number, random = Math.random): number =>
+    Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
+
+/**
+ * Repeats a scheduled request while it fails with a retryable category,
+ * waiting between attempts. Returns the last outcome and how many attempts
+ * were made.
+ */
+export const runWithRetries = async <T>(
+    policy: RetryPolicy,
+    request: () => Promise<ScheduledRequestResult<T>>,
+    signal?: AbortSignal
+): Promise<{ outcome: ScheduledRequestResult<T>, attempts: number }> => {
+    for (let attempt = 1; ; attempt++) {
+        const outcome = await request();
+        if (!('error' in outcome) || attempt >= policy.maxAttempts || !policy.retryOn.includes(outcome.error.category) || signal?.aborted) {
+            return { outcome, attempts: attempt };
+        }
+        const delay = getRetryDelay(policy, attempt);
+        console.warn(`${ERROR_CATEGORY_LABELS[outcome.error.category]} on attempt ${attempt}, retrying in ${delay}ms...`);
+        await sleep(delay, signal);
+    }
+};
@@ -0,0 +1,60 @@
+import { ModelId, Provider, SpendEntry } from '../types';
+import { PROVIDER_INFO } from './providers';
+
+const SPEND_HISTORY_STORAGE_KEY = 'ai_spend_history';
+
+export const maskKey = (key: string): string => {
+    if (!key || key.length <= 8) return '****';
+    return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
+};
+
+// How a key is shown: masked, unless it is not a secret such as the base URL of a self-hosted server.
+export const getKeyLabel = (provider: Provider, key: string): string =>
+    PROVIDER_INFO[provider].credential === 'apiKey' ? maskKey(key) : key;
+
+const today = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export const loadSpendHistory = (): SpendEntry[] => {
+    try {
+        const stored = localStorage.getItem(SPEND_HISTORY_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Could not read spend history:", error);
+        return [];
+    }
+};
+
+export const saveSpendHistory = (history: SpendEntry[]) => {
+    localStorage.setItem(SPEND_HISTORY_STORAGE_KEY, JSON.stringify(history));
+};
+
+// Adds billed images to today's entry for the key and model, creating it when needed.
+export const addSpend = (history: SpendEntry[], provider: Provider, key: string, model: ModelId, images: number, cost: number): SpendEntry[] => {
+    const date = today();
+    const keyLabel = getKeyLabel(provider, key);
+    const index = history.findIndex(e => e.date === date && e.provider === provider && e.keyLabel === keyLabel && e.model === model);
+    if (index === -1) {
+        return [...history, { date, provider, keyLabel, model, images, cost }];
+    }
+    return history.map((entry, i) => i === index ? { ...entry, images: entry.images + images, cost: entry.cost + cost } : entry);
+};
+
+export interface SpendTotal {
+    label: string;
+    images: number;
+    cost: number;
+}
+
+// Sums the history by a grouping label, most expensive first.
+export const summarizeSpend = (history: SpendEntry[], groupBy: (entry: SpendEntry) => string): SpendTotal[] => {
+    const totals = new Map<string, SpendTotal>();
+    history.forEach(entry => {
+        const label = groupBy(entry);
+        const total = totals.get(label) ?? { label, images: 0, cost: 0 };
+        totals.set(label, { label, images: total.images + entry.images, cost: total.cost + entry.cost });
+    });
+    return [...totals.values()].sort((a, b) => b.cost - a.cost);
+};
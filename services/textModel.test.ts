@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@google/genai';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: vi.fn(({ apiKey }: { apiKey: string }) => ({
+        models: { generateContent: (params: unknown) => generateContent(apiKey, params) },
+    })),
+}));
+
+const { createKeyScheduler } = await import('./keyScheduler');
+const { createScheduledTextClient } = await import('./textModel');
+
+const UNLIMITED = { rpm: 0, rpd: 0 };
+const params = { model: 'gemini-2.5-flash', contents: 'A cat' };
+
+describe('createScheduledTextClient', () => {
+    it('moves to the next Google key when one is rate-limited and cools it down', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        generateContent.mockImplementation(async (apiKey: string) => {
+            if (apiKey === 'text-limited') throw new ApiError({ message: 'Quota exceeded', status: 429 });
+            return { text: `answer from ${apiKey}` };
+        });
+        const scheduler = createKeyScheduler();
+        const onAttempt = vi.fn();
+
+        const response = await createScheduledTextClient(scheduler, ['text-limited', 'text-working'], UNLIMITED, onAttempt).generateContent(params);
+
+        expect(response.text).toBe('answer from text-working');
+        expect(scheduler.getUsage('text-limited', UNLIMITED).cooldownUntil).toBeGreaterThan(Date.now());
+        expect(onAttempt).toHaveBeenCalledWith('text-limited', expect.objectContaining({ category: 'rate_limit' }));
+    });
+
+    it('throws the failure with its category once no key can serve the call', async () => {
+        generateContent.mockRejectedValue(new ApiError({ message: 'Bad request', status: 400 }));
+
+        await expect(createScheduledTextClient(createKeyScheduler(), ['text-a'], UNLIMITED).generateContent(params))
+            .rejects.toMatchObject({ message: 'Gemini: Bad request', category: 'invalid_request' });
+    });
+});
@@ -0,0 +1,37 @@
+import { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { NormalizedProviderError, RateLimit } from '../types';
+import { createProviderError } from './providers/base';
+import { getGoogleClient, parseGoogleError } from './providers/google';
+import { KeyScheduler, runWithScheduledKey } from './keyScheduler';
+
+// The Gemini text calls made around image generation: translation, preprocessing and rewrites.
+export interface TextModelClient {
+    generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+}
+
+/**
+ * Sends every call with a Google key from `scheduler`, so text calls share the
+ * image requests' rate limit, rotation and cooldowns instead of wearing out
+ * one key. A call that fails on every key throws a provider error carrying
+ * the category.
+ */
+export const createScheduledTextClient = (
+    scheduler: KeyScheduler,
+    keys: string[],
+    limit: RateLimit,
+    onAttempt?: (key: string, error?: NormalizedProviderError) => void
+): TextModelClient => ({
+    generateContent: async (params) => {
+        const outcome = await runWithScheduledKey(scheduler, {
+            keys,
+            limit,
+            signal: params.config?.abortSignal,
+            normalizeError: parseGoogleError,
+            onAttempt,
+        }, apiKey => getGoogleClient(apiKey).models.generateContent(params));
+        if ('error' in outcome) {
+            throw createProviderError(`Gemini: ${outcome.error.message}`, outcome.error.category);
+        }
+        return outcome.value;
+    },
+});
@@ -0,0 +1,14 @@
+// Resolves after `ms`, or as soon as `signal` is aborted.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+    }
+    signal?.addEventListener('abort', done);
+});
+
+export const isAbortError = (error: any): boolean =>
+    error?.name === 'AbortError' || (error instanceof DOMException && error.name === 'AbortError');
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PreprocessStep } from '../types';
+import { DEFAULT_PREPROCESS_STEPS } from './promptPipeline';
+import { AUTO_DETECT_LANGUAGE, migrateTranslationStep, prepareRowPrompt } from './translation';
+
+// Saved before translation moved from the preprocessing pipeline to the prompt language setting.
+const legacyStep = (enabled: boolean) => ({ id: 'translate_english', kind: 'translate_english', enabled }) as unknown as PreprocessStep;
+
+describe('migrateTranslationStep', () => {
+    it('turns an enabled translation step into auto-detected translation', () => {
+        expect(migrateTranslationStep({ sourceLanguage: 'en', preprocessSteps: [legacyStep(true), ...DEFAULT_PREPROCESS_STEPS] }))
+            .toEqual({ sourceLanguage: AUTO_DETECT_LANGUAGE, preprocessSteps: DEFAULT_PREPROCESS_STEPS });
+    });
+
+    it('keeps a language already picked, and English when the step was off', () => {
+        expect(migrateTranslationStep({ sourceLanguage: 'vi', preprocessSteps: [legacyStep(true)] }).sourceLanguage).toBe('vi');
+        expect(migrateTranslationStep({ sourceLanguage: 'en', preprocessSteps: [legacyStep(false)] }))
+            .toEqual({ sourceLanguage: 'en', preprocessSteps: [] });
+    });
+});
+
+describe('prepareRowPrompt', () => {
+    const settings = { sourceLanguage: 'vi', preprocessSteps: [] };
+
+    it('fails a prompt that needs translating when there is no Gemini client', async () => {
+        await expect(prepareRowPrompt(null, 'Một con mèo', { id: '1', prompt: 'Một con mèo' }, settings))
+            .rejects.toMatchObject({ message: 'Translation from Vietnamese requires a Google AI key.', category: 'invalid_request' });
+    });
+
+    it('sends a manual translation without a Gemini client', async () => {
+        const row = { id: '1', prompt: 'Một con mèo', translationOverride: 'A cat' };
+        expect(await prepareRowPrompt(null, row.prompt, row, settings)).toMatchObject({ prompt: 'A cat', translatedPrompt: 'A cat' });
+    });
+});
@@ -0,0 +1,116 @@
+import { Type } from '@google/genai';
+import { BatchJobSettings, CsvRow } from '../types';
+import { normalizePreprocessSteps, preprocessPrompt, PreprocessedPrompt, runCachedInstruction } from './promptPipeline';
+import { classifyError, createProviderError } from './providers/base';
+import { TextModelClient } from './textModel';
+import { isAbortError } from './timing';
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+export const ENGLISH = 'en';
+
+// ISO 639-1 codes offered in the language picker; detection may return others.
+export const PROMPT_LANGUAGES: Record<string, string> = {
+    en: 'English',
+    vi: 'Vietnamese',
+    zh: 'Chinese',
+    ja: 'Japanese',
+    ko: 'Korean',
+    th: 'Thai',
+    id: 'Indonesian',
+    fr: 'French',
+    de: 'German',
+    es: 'Spanish',
+    pt: 'Portuguese',
+    ru: 'Russian',
+};
+
+export const getLanguageName = (code: string): string => PROMPT_LANGUAGES[code] ?? code;
+
+export const needsTranslation = (language: string): boolean =>
+    language !== AUTO_DETECT_LANGUAGE && language !== ENGLISH;
+
+/**
+ * Translation used to be a "Translate to English" preprocessing step. Settings
+ * saved with that step enabled translate through the prompt language instead:
+ * auto-detected, unless a language to translate from was already picked.
+ */
+export const migrateTranslationStep = <T extends Pick<BatchJobSettings, 'sourceLanguage' | 'preprocessSteps'>>(settings: T): T => {
+    const hadTranslationStep = settings.preprocessSteps.some(step => (step.kind as string) === 'translate_english' && step.enabled);
+    return {
+        ...settings,
+        sourceLanguage: hadTranslationStep && !needsTranslation(settings.sourceLanguage) ? AUTO_DETECT_LANGUAGE : settings.sourceLanguage,
+        preprocessSteps: normalizePreprocessSteps(settings.preprocessSteps),
+    };
+};
+
+// Enough rows to outvote a few English product names without sending the whole batch.
+const DETECTION_SAMPLE_SIZE = 10;
+
+/**
+ * Asks Gemini which language most of the prompts are written in and returns
+ * its ISO 639-1 code.
+ */
+export const detectPromptLanguage = async (aiInstance: TextModelClient, prompts: string[], signal?: AbortSignal): Promise<string> => {
+    const sample = prompts.filter(p => p.trim()).slice(0, DETECTION_SAMPLE_SIZE);
+    if (sample.length === 0) return ENGLISH;
+
+    const response = await aiInstance.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: sample.map((prompt, i) => `${i + 1}. ${prompt}`).join('\n'),
+        config: {
+            systemInstruction: 'Identify the language most of these image generation prompts are written in. Ignore brand names, proper nouns and style keywords that are commonly written in English.',
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: { language: { type: Type.STRING, description: 'ISO 639-1 code, e.g. "en" or "vi"' } },
+                required: ['language'],
+            },
+            temperature: 0,
+            abortSignal: signal,
+        },
+    });
+    const { language } = JSON.parse(response.text ?? '{}');
+    if (typeof language !== 'string' || !language.trim()) {
+        throw new Error('Gemini did not return a language code.');
+    }
+    return language.trim().toLowerCase().slice(0, 2);
+};
+
+export const translatePrompt = (aiInstance: TextModelClient, prompt: string, language: string, signal?: AbortSignal): Promise<string> =>
+    runCachedInstruction(aiInstance, `You translate image generation prompts from ${getLanguageName(language)} into English.
+- Keep the meaning, details and tone; do not add or drop anything.
+- Keep words that are already in English, and proper nouns that have no English form, as they are.`, prompt, signal);
+
+/**
+ * Everything that happens to a composed prompt before it is sent: the row's
+ * manual translation or an automatic one, then the preprocessing steps. Without
+ * a Gemini client the steps are skipped, but a prompt that needs translating
+ * fails rather than being sent untranslated.
+ */
+export const prepareRowPrompt = async (
+    aiInstance: TextModelClient | null,
+    prompt: string,
+    row: CsvRow,
+    settings: Pick<BatchJobSettings, 'sourceLanguage' | 'preprocessSteps'>,
+    signal?: AbortSignal
+): Promise<PreprocessedPrompt & { translatedPrompt?: string }> => {
+    let translatedPrompt = row.translationOverride?.trim() || undefined;
+    if (!translatedPrompt && !aiInstance && needsTranslation(settings.sourceLanguage)) {
+        throw createProviderError(`Translation from ${getLanguageName(settings.sourceLanguage)} requires a Google AI key.`, 'invalid_request');
+    }
+    if (!translatedPrompt && aiInstance && needsTranslation(settings.sourceLanguage)) {
+        try {
+            translatedPrompt = await translatePrompt(aiInstance, prompt, settings.sourceLanguage, signal);
+        } catch (error: any) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            console.error("Prompt translation failed:", error);
+            throw createProviderError(`Translation from ${getLanguageName(settings.sourceLanguage)} failed: ${error?.message ?? 'unknown error'}`, classifyError(error));
+        }
+    }
+    const translationStage = translatedPrompt ? [{ stepId: 'translation', name: 'Translation', output: translatedPrompt }] : [];
+    if (!aiInstance) {
+        return { prompt: translatedPrompt ?? prompt, stages: translationStage, translatedPrompt };
+    }
+    const processed = await preprocessPrompt(aiInstance, translatedPrompt ?? prompt, settings.preprocessSteps, signal);
+    return { ...processed, stages: [...translationStage, ...processed.stages], translatedPrompt };
+};
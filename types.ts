@@ -1,3 +1,5 @@
+import type { IMAGE_PROVIDERS } from './services/providers';
+
 export enum AspectRatio {
   SQUARE = '1:1',
   PORTRAIT = '9:16',
@@ -7,21 +9,305 @@ export enum AspectRatio {
 export interface CsvRow {
   id: string;
   prompt: string;
+  // Optional per-row overrides of the batch settings, read from extra CSV columns.
+  aspectRatio?: AspectRatio;
+  model?: ModelId;
+  style?: string;
+  negativePrompt?: string;
+  seed?: number;
+  filename?: string;
+  variantCount?: number;
+  // English text entered by hand in place of the automatic translation of this row.
+  translationOverride?: string;
+  // Every cell of the source row, keyed by lower-cased header name and by `col1`, `col2`, ...
+  fields?: Record<string, string>;
+}
+
+export type CsvField = 'id' | 'prompt' | 'aspect_ratio' | 'model' | 'style' | 'negative_prompt' | 'seed' | 'filename' | 'variants' | 'ignore';
+
+export interface RejectedCsvRow {
+  // 1-based line number in the source data, counting the header.
+  line: number;
+  values: string[];
+  reason: string;
 }
 
-export type GenerationStatus = 'pending' | 'generating' | 'success' | 'error';
+export type GenerationStatus = 'pending' | 'generating' | 'paused' | 'success' | 'error' | 'cancelled';
 
-export interface ImageResult {
+export interface ImageVariant {
+  imageUrl: string;
+  mimeType: string;
+}
+
+// 'original' keeps the bytes the model returned; the others re-encode client-side.
+export type ExportFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportProfile {
   id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface GenerationMetadata {
+  model: ModelId;
+  aspectRatio: AspectRatio;
+  // Position of the API key in the provider's key list; the key itself is never recorded.
+  keyIndex: number;
+  // Exactly what was sent to the API, after anonymization.
+  sentPrompt: string;
+  negativePrompt?: string;
+  seed?: number;
+  // Set when the image was produced by editing the previous version rather than from the prompt.
+  editInstruction?: string;
+  // Set when a fallback model produced the image instead of this one.
+  requestedModel?: ModelId;
+  // List-price USD of every image billed for this generation, including ones discarded on the way.
+  cost?: number;
+  generatedAt: number;
+}
+
+// A past state of a result, kept so an edit or regeneration never destroys a good image.
+export interface ResultVersion {
   prompt: string;
-  imageUrl: string | null;
+  expandedPrompt?: string;
+  variants: ImageVariant[];
+  chosenVariant: number;
+  generation?: GenerationMetadata;
+  createdAt: number;
+}
+
+// A prompt the safety filter blocked and the paraphrase that replaced it.
+export interface PromptRewrite {
+  blockedPrompt: string;
+  reason: string;
+  rewrittenPrompt: string;
+}
+
+export interface ImageResult extends CsvRow {
+  // The prompt after template, style preset and style expansion, as last generated.
+  expandedPrompt?: string;
+  // English version of `expandedPrompt`, when the batch is translated.
+  translatedPrompt?: string;
+  generation?: GenerationMetadata;
+  history?: ResultVersion[];
+  variants: ImageVariant[];
+  // Index into `variants` of the image that gets exported.
+  chosenVariant: number;
   status: GenerationStatus;
   error?: string;
+  errorCategory?: ErrorCategory;
+  // Requests made for the last generation, retries included.
+  attempts?: number;
+  // Automatic rewrites of the last generation, oldest first; the last one is what was sent.
+  rewrites?: PromptRewrite[];
 }
 
-export type Provider = 'google' | 'openai';
+export type SafetyLevel = 'default' | 'lenient' | 'none';
 
-export interface ApiKeys {
-  google: string[];
-  openai: string[];
+export interface ProviderCapabilities {
+  aspectRatios: AspectRatio[];
+  // Pixel size requested for each supported aspect ratio, when the API takes one.
+  sizes?: Partial<Record<AspectRatio, string>>;
+  outputMimeType: string;
+  maxPromptLength: number;
+  // How many images a single API call can return; more variants mean more calls.
+  maxImagesPerRequest: number;
+  supportsSafetySettings: boolean;
+  // Without native support a negative prompt is appended to the prompt text instead.
+  supportsNegativePrompt: boolean;
+  supportsSeed: boolean;
+  // Present when the adapter implements `edit`.
+  editing?: {
+    supportsMask: boolean;
+    supportsReferenceImage: boolean;
+  };
+  // Model-specific settings offered next to the model picker.
+  options?: ProviderOption[];
+}
+
+export interface ProviderOption {
+  id: string;
+  label: string;
+  choices: Array<{ value: string, label: string }>;
+  defaultValue: string;
+}
+
+// Values of a model's `capabilities.options`, keyed by option id.
+export type ProviderOptionValues = Record<string, string>;
+
+export interface GenerateImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  // The base URL for providers whose `credential` is 'baseUrl'.
+  apiKey: string;
+  safetyLevel: SafetyLevel;
+  count: number;
+  negativePrompt?: string;
+  seed?: number;
+  options: ProviderOptionValues;
+  signal?: AbortSignal;
+}
+
+// Why a request failed. 'auth' means the key itself was rejected (invalid, revoked, no access).
+export type ErrorCategory = 'rate_limit' | 'safety_block' | 'auth' | 'network' | 'server' | 'invalid_request' | 'unknown';
+
+export interface NormalizedProviderError {
+  message: string;
+  category: ErrorCategory;
+  // How long the provider asked us to wait before using the key again.
+  retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+  // Total tries per request, including the first.
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: ErrorCategory[];
+}
+
+export interface EditImageRequest {
+  instruction: string;
+  image: ImageVariant;
+  referenceImage?: ImageVariant;
+  // PNG data URL the size of `image`; fully transparent pixels mark the area to repaint.
+  mask?: string;
+  apiKey: string;
+  safetyLevel: SafetyLevel;
+  count: number;
+  options: ProviderOptionValues;
+  signal?: AbortSignal;
+}
+
+export interface ImageProviderAdapter<Id extends string = string, P extends string = string> {
+  id: Id;
+  provider: P;
+  name: string;
+  capabilities: ProviderCapabilities;
+  // List price in USD per generated image at each aspect ratio; a missing ratio counts as unknown.
+  pricePerImage: Partial<Record<AspectRatio, number>>;
+  // Replaces `pricePerImage` for models whose price depends on their options, e.g. quality.
+  priceFor?: (aspectRatio: AspectRatio, options: ProviderOptionValues) => number | undefined;
+  generate: (request: GenerateImageRequest) => Promise<ImageVariant[]>;
+  edit?: (request: EditImageRequest) => Promise<ImageVariant[]>;
+  // Cheap call that fails when the key cannot use this model; never generates an image.
+  validateKey: (apiKey: string) => Promise<void>;
+  normalizeError: (error: any) => NormalizedProviderError;
+}
+
+export type ModelId = (typeof IMAGE_PROVIDERS)[number]['id'];
+
+export type Provider = (typeof IMAGE_PROVIDERS)[number]['provider'];
+
+export type ApiKeys = Record<Provider, string[]>;
+
+export interface ProviderInfo {
+  name: string;
+  // Self-hosted servers are reached by base URL, which is stored and rotated like an API key.
+  // Mock keys are not secret either; they name the failures the mock provider should simulate.
+  credential: 'apiKey' | 'baseUrl' | 'mockKey';
+  // Where to get a key, or how to start the server with its API enabled.
+  helpUrl?: string;
+  hint?: string;
+}
+
+export interface KeyHealth {
+  requests: number;
+  successes: number;
+  rateLimited: number;
+  failures: number;
+  lastError?: string;
+  lastUsedAt?: number;
+  // Set when the key was taken out of rotation, e.g. after an auth error.
+  disabledReason?: string;
+  lastTest?: { at: number, ok: boolean, message?: string };
+}
+
+// Requests allowed per API key; 0 means unlimited.
+export interface RateLimit {
+  rpm: number;
+  rpd: number;
+}
+
+// What the edit dialog asks for; the chosen variant of the result is the image being edited.
+export interface ImageEditOptions {
+  instruction: string;
+  model: ModelId;
+  referenceImage?: ImageVariant;
+  mask?: string;
+}
+
+export interface BatchJobSettings {
+  model: ModelId;
+  aspectRatio: AspectRatio;
+  safetyLevel: SafetyLevel;
+  preprocessSteps: PreprocessStep[];
+  // ISO 639-1 code of the prompts, or 'auto' until detected; anything but 'en' is translated first.
+  sourceLanguage: string;
+  concurrencyLimit: number;
+  variantsPerPrompt: number;
+  promptTemplate: string;
+  stylePreset: StylePreset | null;
+  retryPolicy: RetryPolicy;
+  // How often a safety-blocked prompt may be rewritten by Gemini and retried; 0 turns it off.
+  safetyRewriteAttempts: number;
+  // USD the batch may spend before the queue pauses; 0 means no cap.
+  budgetLimit: number;
+  // Tried in order when the row's own model fails for lack of usable keys or a server error.
+  fallbackModels: ModelId[];
+  // Choices for models with `capabilities.options`; missing values use the option's default.
+  providerOptions: Partial<Record<ModelId, ProviderOptionValues>>;
+}
+
+export type PreprocessStepKind = 'anonymize_names' | 'remove_brands' | 'scrub_profanity' | 'enhance' | 'custom';
+
+// One Gemini pass over the prompt before it is sent to the image model.
+export interface PreprocessStep {
+  id: string;
+  kind: PreprocessStepKind;
+  enabled: boolean;
+  // Only used by 'custom' steps.
+  name?: string;
+  instruction?: string;
+}
+
+// Images billed on one day for one key and model; the spend history is a list of these.
+export interface SpendEntry {
+  // YYYY-MM-DD, local time.
+  date: string;
+  provider: Provider;
+  // Masked key, never the key itself.
+  keyLabel: string;
+  model: ModelId;
+  images: number;
+  cost: number;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  prefix: string;
+  suffix: string;
+  negative: string;
+}
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  settings: BatchJobSettings;
+  rows: CsvRow[];
+  results: ImageResult[];
+}
+
+export interface BatchJobSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  total: number;
+  completed: number;
+  failed: number;
 }